@@ -1,18 +1,27 @@
-import React, { useState } from 'react';
+import React, { useRef } from 'react';
 import QuotePage from './pages/QuotePage';
 import AdminPage from './pages/AdminPage';
-import { db } from './firebase'; // To initialize firebase connection
-import Modal from './components/ui/Modal';
-import Input from './components/ui/Input';
-import Button from './components/ui/Button';
+import QuoteListPage from './pages/QuoteListPage';
+import LoginPage from './pages/LoginPage';
+import SharedQuotePage from './pages/SharedQuotePage';
+import { useAuth } from './hooks/useAuth';
+import { useRoute } from './hooks/useRoute';
+import { hasRole, getRoleLabel, signOut } from './services/authService';
+import { AppRoute, AdminRoute, adminRoute } from './services/routeService';
 
-type Page = 'quote' | 'admin';
+type Page = AppRoute['page'];
 
 const App: React.FC = () => {
-  const [currentPage, setCurrentPage] = useState<Page>('quote');
-  const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
-  const [passwordInput, setPasswordInput] = useState('');
-  const [passwordError, setPasswordError] = useState('');
+  const { route, navigate } = useRoute();
+  const currentPage = route.page;
+  // The builder reopens the quote it last showed when coming back from another page.
+  const lastQuoteIdRef = useRef<string | null>(null);
+  if (route.page === 'quote') lastQuoteIdRef.current = route.quoteId;
+  const { user, profile, loading: authLoading } = useAuth();
+
+  // Accounts without a profile document have no access until an owner approves them.
+  const role = profile?.Role ?? 'pending';
+  const canAccessAdmin = hasRole(role, 'catalogAdmin');
 
   const navButtonClasses = (page: Page) =>
     `px-4 py-2 rounded-md text-sm font-medium transition-colors ${
@@ -21,25 +30,54 @@ const App: React.FC = () => {
         : 'text-gray-700 hover:bg-blue-100'
     }`;
 
-  const handleAdminNavClick = () => {
-    if (currentPage !== 'admin') {
-      setPasswordInput('');
-      setPasswordError('');
-      setIsPasswordModalOpen(true);
-    }
+  const handleSignOut = async () => {
+    navigate({ page: 'quote', quoteId: null });
+    await signOut();
+  };
+
+  const handleOpenQuote = (quoteId: string) => {
+    navigate({ page: 'quote', quoteId });
+  };
+
+  // Saving a new quote or dropping a missing one updates the address without a new history entry.
+  const handleQuoteIdChange = (quoteId: string | null) => {
+    navigate({ page: 'quote', quoteId }, { replace: true });
+  };
+
+  // Product filter changes replace the entry; switching tabs adds one.
+  const handleAdminRouteChange = (next: AdminRoute) => {
+    navigate(next, { replace: route.page === 'admin' && route.tab === next.tab });
   };
 
-  const handlePasswordSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (passwordInput === '1234') {
-      setCurrentPage('admin');
-      setIsPasswordModalOpen(false);
-    } else {
-      setPasswordError('비밀번호가 틀렸습니다.');
-      setPasswordInput('');
+  const renderPage = () => {
+    if (!hasRole(role, 'viewer')) {
+      return <p className="text-center text-gray-500 py-12">가입이 완료되었습니다. 소유자가 계정을 승인하면 견적과 상품을 볼 수 있습니다.</p>;
+    }
+    switch (route.page) {
+      case 'quote': return <QuotePage quoteId={route.quoteId} onQuoteIdChange={handleQuoteIdChange} canEdit={hasRole(role, 'sales')} />;
+      case 'quotes': return <QuoteListPage onOpenQuote={handleOpenQuote} />;
+      case 'admin':
+        // Direct links to admin pages are checked here as well as in the navigation.
+        return canAccessAdmin && user
+          ? <AdminPage role={role} currentUserId={user.uid} route={route} onRouteChange={handleAdminRouteChange} />
+          : <p className="text-center text-gray-500 py-12">관리자 패널에 접근할 권한이 없습니다.</p>;
+      default: return null;
     }
   };
 
+  // Customers open shared quotes without an account, outside the staff layout.
+  if (route.page === 'share') {
+    return (
+      <div className="min-h-screen bg-gray-50 text-gray-800 p-4 sm:p-6 lg:p-8">
+        <SharedQuotePage token={route.token} />
+      </div>
+    );
+  }
+
+  if (authLoading) {
+    return <div className="min-h-screen flex items-center justify-center text-gray-500">로딩 중...</div>;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50 text-gray-800">
       <header className="bg-white shadow-sm sticky top-0 z-40">
@@ -48,55 +86,46 @@ const App: React.FC = () => {
             <div className="flex items-center">
               <span className="font-bold text-xl text-blue-600">투어견적 프로</span>
             </div>
-            <div className="flex items-center space-x-4">
-              <button
-                onClick={() => setCurrentPage('quote')}
-                className={navButtonClasses('quote')}
-              >
-                견적 생성기
-              </button>
-              <button
-                onClick={handleAdminNavClick}
-                className={navButtonClasses('admin')}
-              >
-                관리자 패널
-              </button>
-            </div>
+            {user && (
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => navigate({ page: 'quote', quoteId: lastQuoteIdRef.current })}
+                  className={navButtonClasses('quote')}
+                >
+                  견적 생성기
+                </button>
+                <button
+                  onClick={() => navigate({ page: 'quotes' })}
+                  className={navButtonClasses('quotes')}
+                >
+                  견적 목록
+                </button>
+                {canAccessAdmin && (
+                  <button
+                    onClick={() => navigate(adminRoute('Products'))}
+                    className={navButtonClasses('admin')}
+                  >
+                    관리자 패널
+                  </button>
+                )}
+                <div className="pl-4 border-l border-gray-200 text-right">
+                  <p className="text-sm font-medium">{profile?.DisplayName || user.email}</p>
+                  <p className="text-xs text-gray-500">{getRoleLabel(role)}</p>
+                </div>
+                <button onClick={handleSignOut} className="text-sm text-gray-500 hover:text-gray-700">
+                  로그아웃
+                </button>
+              </div>
+            )}
           </div>
         </nav>
       </header>
       <main className="container mx-auto p-4 sm:p-6 lg:p-8">
-        {currentPage === 'quote' ? <QuotePage /> : <AdminPage />}
+        {user ? renderPage() : <LoginPage />}
       </main>
       <footer className="text-center py-4 text-gray-500 text-sm">
         <p>&copy; 2024 투어 견적 앱. 모든 권리 보유.</p>
       </footer>
-
-      <Modal
-        isOpen={isPasswordModalOpen}
-        onClose={() => setIsPasswordModalOpen(false)}
-        title="관리자 인증"
-      >
-        <form onSubmit={handlePasswordSubmit} className="space-y-4">
-          <Input
-            label="비밀번호"
-            id="admin-password"
-            type="password"
-            value={passwordInput}
-            onChange={(e) => setPasswordInput(e.target.value)}
-            autoFocus
-          />
-          {passwordError && <p className="text-red-500 text-sm">{passwordError}</p>}
-          <div className="flex justify-end gap-2 pt-4">
-            <Button type="button" variant="secondary" onClick={() => setIsPasswordModalOpen(false)}>
-              취소
-            </Button>
-            <Button type="submit">
-              확인
-            </Button>
-          </div>
-        </form>
-      </Modal>
     </div>
   );
 };
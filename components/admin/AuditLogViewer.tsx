@@ -0,0 +1,127 @@
+import React, { useState, useMemo } from 'react';
+import { db } from '../../firebase';
+import { collection, query, orderBy, limit } from 'firebase/firestore';
+import { useFirestoreCollection } from '../../hooks/useFirestoreCollection';
+import { AuditLog, AuditAction, AuditValue } from '../../types';
+import { COLLECTION_LABELS, CatalogCollection } from '../../services/catalogBackupService';
+import { loadAuditCascade } from '../../services/auditService';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import CascadeDetails from './CascadeDetails';
+
+// The viewer only loads the most recent entries; older ones stay in Firestore.
+const MAX_ENTRIES = 1000;
+
+const ACTION_STYLES: Record<AuditAction, { label: string; className: string }> = {
+    create: { label: '추가', className: 'bg-green-100 text-green-800' },
+    update: { label: '수정', className: 'bg-blue-100 text-blue-800' },
+    delete: { label: '휴지통 이동', className: 'bg-red-100 text-red-800' },
+    restore: { label: '복원', className: 'bg-yellow-100 text-yellow-800' },
+    purge: { label: '영구 삭제', className: 'bg-gray-200 text-gray-800' },
+};
+
+const collectionLabel = (name: string) => COLLECTION_LABELS[name as CatalogCollection] || name;
+
+const formatValue = (value: AuditValue) => value === null ? '(없음)' : String(value);
+
+// Component to browse the catalog audit log
+const AuditLogViewer: React.FC = () => {
+    const logsQuery = useMemo(() => query(collection(db, 'AuditLogs'), orderBy('CreatedAt', 'desc'), limit(MAX_ENTRIES)), []);
+    const { data: logs, loading, error } = useFirestoreCollection<AuditLog>('AuditLogs', logsQuery);
+
+    const [selectedCollection, setSelectedCollection] = useState('');
+    const [selectedActor, setSelectedActor] = useState('');
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+
+    const actors = useMemo(() => {
+        const byId = new Map<string, string>();
+        logs.forEach(log => byId.set(log.ActorId, log.ActorEmail || log.ActorId));
+        return [...byId.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+    }, [logs]);
+
+    const filteredLogs = useMemo(() => {
+        const fromTime = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : null;
+        const toTime = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : null;
+
+        return logs
+            .filter(log => !selectedCollection || log.Collection === selectedCollection)
+            .filter(log => !selectedActor || log.ActorId === selectedActor)
+            .filter(log => {
+                if (fromTime === null && toTime === null) return true;
+                if (!log.CreatedAt) return false;
+                const time = log.CreatedAt.toMillis();
+                return (fromTime === null || time >= fromTime) && (toTime === null || time <= toTime);
+            });
+    }, [logs, selectedCollection, selectedActor, dateFrom, dateTo]);
+
+    const resetFilters = () => {
+        setSelectedCollection('');
+        setSelectedActor('');
+        setDateFrom('');
+        setDateTo('');
+    };
+
+    return (
+      <div>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end mb-6">
+            <Select label="항목" id="audit-collection" value={selectedCollection} onChange={e => setSelectedCollection(e.target.value)}>
+                <option value="">전체</option>
+                {(Object.keys(COLLECTION_LABELS) as CatalogCollection[]).map(name => <option key={name} value={name}>{COLLECTION_LABELS[name]}</option>)}
+            </Select>
+            <Select label="사용자" id="audit-actor" value={selectedActor} onChange={e => setSelectedActor(e.target.value)}>
+                <option value="">전체 사용자</option>
+                {actors.map(([id, email]) => <option key={id} value={id}>{email}</option>)}
+            </Select>
+            <Input label="시작일" id="audit-date-from" type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} />
+            <Input label="종료일" id="audit-date-to" type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} />
+            <Button variant="secondary" onClick={resetFilters}>필터 초기화</Button>
+        </div>
+
+        {error && <p className="text-red-500 my-2">변경 기록을 불러오지 못했습니다. (오류: {error.message})</p>}
+        {loading ? <p>로딩 중...</p> : filteredLogs.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4 bg-gray-50 rounded-md">조건에 맞는 변경 기록이 없습니다.</p>
+        ) : (
+            <ul className="space-y-3">
+                {filteredLogs.map(log => {
+                    const action = ACTION_STYLES[log.Action];
+                    return (
+                        <li key={log.id} className="p-3 bg-gray-50 rounded-md">
+                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                                <span className={`px-2 py-0.5 rounded text-xs font-semibold ${action.className}`}>{action.label}</span>
+                                <span className="font-medium">{collectionLabel(log.Collection)} · {log.DocumentName}</span>
+                                <span className="text-gray-500 ml-auto">
+                                    {log.ActorEmail || log.ActorId} · {log.CreatedAt ? log.CreatedAt.toDate().toLocaleString('ko-KR') : 'N/A'}
+                                </span>
+                            </div>
+                            {log.Changes.length > 0 && (
+                                <table className="mt-2 w-full text-xs">
+                                    <tbody>
+                                        {log.Changes.map(change => (
+                                            <tr key={change.Field} className="border-t border-gray-200">
+                                                <td className="py-1 pr-3 font-medium text-gray-600 w-40">{change.Field}</td>
+                                                <td className="py-1 pr-3 text-red-700 line-through break-all">{log.Action !== 'create' && formatValue(change.Before)}</td>
+                                                <td className="py-1 text-green-700 break-all">{log.Action !== 'delete' && log.Action !== 'purge' && formatValue(change.After)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                            {!!log.CascadeCount && (
+                                <CascadeDetails
+                                    summary={`함께 ${log.Action === 'restore' ? '복원' : '삭제'}된 항목 ${log.CascadeCount}개`}
+                                    load={() => loadAuditCascade(log.id)}
+                                />
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        )}
+        {logs.length >= MAX_ENTRIES && <p className="text-xs text-gray-500 mt-4">최근 {MAX_ENTRIES}건만 표시됩니다.</p>}
+      </div>
+    );
+};
+
+export default AuditLogViewer;
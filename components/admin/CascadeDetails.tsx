@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { AuditCascadeEntry } from '../../types';
+import { COLLECTION_LABELS, CatalogCollection } from '../../services/catalogBackupService';
+
+const collectionLabel = (name: string) => COLLECTION_LABELS[name as CatalogCollection] || name;
+
+interface CascadeDetailsProps {
+    summary: string;
+    load: () => Promise<AuditCascadeEntry[]>;
+}
+
+// Collapsible list of the documents in a cascade, loaded the first time it is opened.
+const CascadeDetails: React.FC<CascadeDetailsProps> = ({ summary, load }) => {
+    const [items, setItems] = useState<AuditCascadeEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleToggle = (e: React.SyntheticEvent<HTMLDetailsElement>) => {
+        if (!e.currentTarget.open || items) return;
+        setError(null);
+        load()
+            .then(setItems)
+            .catch(err => {
+                console.error("Failed to load cascade items:", err);
+                setError('목록을 불러오지 못했습니다.');
+            });
+    };
+
+    return (
+        <details className="mt-2 text-xs text-gray-600" onToggle={handleToggle}>
+            <summary className="cursor-pointer">{summary}</summary>
+            {error ? <p className="mt-1 ml-4 text-red-500">{error}</p> : !items ? <p className="mt-1 ml-4 text-gray-500">로딩 중...</p> : (
+                <ul className="mt-1 ml-4 list-disc">
+                    {items.map(item => (
+                        <li key={`${item.Collection}/${item.DocumentId}`}>{collectionLabel(item.Collection)} · {item.DocumentName}</li>
+                    ))}
+                </ul>
+            )}
+        </details>
+    );
+};
+
+export default CascadeDetails;
@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import {
+    CatalogBackup as CatalogBackupFile,
+    CatalogCollection,
+    BackupRecord,
+    CatalogRestorePlan,
+    RestoreMode,
+    COLLECTION_LABELS,
+    NAME_FIELDS,
+    exportCatalogBackup,
+    parseCatalogBackup,
+    planCatalogRestore,
+    applyCatalogRestore,
+} from '../../services/catalogBackupService';
+import Button from '../ui/Button';
+
+const COLLECTION_ORDER: CatalogCollection[] = ['Countries', 'Cities', 'Categories', 'Products'];
+
+interface CatalogBackupProps {
+    requestDelete: (deleteFn: () => Promise<void>) => void;
+    canDelete: boolean;
+}
+
+// Component to export the catalog as JSON and restore it from a backup file
+const CatalogBackup: React.FC<CatalogBackupProps> = ({ requestDelete, canDelete }) => {
+    const [isExporting, setIsExporting] = useState(false);
+    const [backup, setBackup] = useState<CatalogBackupFile | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [mode, setMode] = useState<RestoreMode>('merge');
+    const [plan, setPlan] = useState<CatalogRestorePlan | null>(null);
+    const [isPlanning, setIsPlanning] = useState(false);
+    const [isRestoring, setIsRestoring] = useState(false);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const isBusy = isExporting || isPlanning || isRestoring;
+
+    const handleExport = async () => {
+        setIsExporting(true);
+        setError(null);
+        setMessage(null);
+        try {
+            const exported = await exportCatalogBackup();
+            const counts = COLLECTION_ORDER.map(name => `${COLLECTION_LABELS[name]} ${exported.collections[name].length}개`).join(', ');
+            setMessage(`백업 파일을 내려받았습니다. (${counts})`);
+        } catch (err) {
+            console.error("Error exporting catalog:", err);
+            setError(`백업에 실패했습니다. (오류: ${(err as Error).message})`);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const buildPlan = async (file: CatalogBackupFile, restoreMode: RestoreMode) => {
+        setIsPlanning(true);
+        setError(null);
+        try {
+            setPlan(await planCatalogRestore(file, restoreMode));
+        } catch (err) {
+            console.error("Error comparing catalog:", err);
+            setError(`현재 카탈로그와 비교하지 못했습니다. (오류: ${(err as Error).message})`);
+        } finally {
+            setIsPlanning(false);
+        }
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setBackup(null);
+        setPlan(null);
+        setProgress(null);
+        setMessage(null);
+        setError(null);
+        setFileName(file.name);
+        try {
+            const parsed = parseCatalogBackup(await file.text());
+            setBackup(parsed);
+            await buildPlan(parsed, mode);
+        } catch (err) {
+            setError(`백업 파일을 사용할 수 없습니다.\n${(err as Error).message}`);
+        }
+    };
+
+    const handleModeChange = (nextMode: RestoreMode) => {
+        setMode(nextMode);
+        if (backup) buildPlan(backup, nextMode);
+    };
+
+    const handleRestore = () => {
+        if (!plan) return;
+        requestDelete(async () => {
+            setIsRestoring(true);
+            setError(null);
+            try {
+                await applyCatalogRestore(plan, (done, total) => setProgress({ done, total }));
+                setMessage('복원이 완료되었습니다.');
+                setBackup(null);
+                setPlan(null);
+            } catch (err) {
+                console.error("Error restoring catalog:", err);
+                setError(`복원 중 오류가 발생했습니다. 일부 항목만 반영되었을 수 있으니 같은 파일로 다시 복원하세요. (오류: ${(err as Error).message})`);
+            } finally {
+                setIsRestoring(false);
+            }
+        });
+    };
+
+    const totalChanges = plan
+        ? COLLECTION_ORDER.reduce((sum, name) => sum + plan[name].create.length + plan[name].update.length + plan[name].remove.length, 0)
+        : 0;
+    const skippedRecords: { name: CatalogCollection; record: BackupRecord }[] = plan
+        ? COLLECTION_ORDER.flatMap(name => plan[name].skipped.map(record => ({ name, record })))
+        : [];
+
+    return (
+      <div className="space-y-8">
+        <section>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">카탈로그 백업</h3>
+            <p className="text-sm text-gray-600 mb-3">국가, 도시, 카테고리, 상품 전체를 JSON 파일로 내려받습니다. 삭제나 일괄 수정 전에 백업해 두세요.</p>
+            <Button onClick={handleExport} disabled={isBusy}>{isExporting ? '백업 중...' : '백업 파일 내려받기'}</Button>
+        </section>
+
+        <section>
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">백업에서 복원</h3>
+            <div className="flex flex-wrap items-center gap-6 mb-3">
+                <input
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleFileChange}
+                    disabled={isBusy}
+                    className="text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                />
+                <label className="flex items-center gap-2 text-sm">
+                    <input type="radio" name="restore-mode" checked={mode === 'merge'} onChange={() => handleModeChange('merge')} disabled={isBusy} />
+                    병합 (백업에 있는 항목만 추가·덮어쓰기)
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                    <input type="radio" name="restore-mode" checked={mode === 'replace'} onChange={() => handleModeChange('replace')} disabled={isBusy} />
+                    전체 교체 (백업에 없는 항목은 휴지통으로 이동)
+                </label>
+            </div>
+
+            {isPlanning && <p className="text-sm text-gray-500">현재 카탈로그와 비교 중...</p>}
+
+            {backup && plan && !isPlanning && (
+                <div className="space-y-3">
+                    <p className="text-sm text-gray-600">
+                        {fileName}{backup.exportedAt && ` (${new Date(backup.exportedAt).toLocaleString('ko-KR')} 백업)`} — 복원 시 변경 내역 미리보기
+                    </p>
+                    <table className="min-w-full text-sm border border-gray-200">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                <th className="px-3 py-2 text-left font-medium text-gray-500">항목</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500">추가</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500">덮어쓰기</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500">변경 없음</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500">휴지통으로 이동</th>
+                                <th className="px-3 py-2 text-right font-medium text-gray-500">건너뜀</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {COLLECTION_ORDER.map(name => (
+                                <tr key={name}>
+                                    <td className="px-3 py-2">{COLLECTION_LABELS[name]}</td>
+                                    <td className="px-3 py-2 text-right text-green-700">{plan[name].create.length}</td>
+                                    <td className="px-3 py-2 text-right text-blue-700">{plan[name].update.length}</td>
+                                    <td className="px-3 py-2 text-right text-gray-500">{plan[name].unchanged}</td>
+                                    <td className="px-3 py-2 text-right text-red-600">{plan[name].remove.length}</td>
+                                    <td className="px-3 py-2 text-right text-amber-700">{plan[name].skipped.length}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {skippedRecords.length > 0 && (
+                        <div className="p-3 bg-amber-50 text-amber-800 rounded-md text-sm">
+                            <p>휴지통에 있는 항목(또는 휴지통에 있는 상위 항목에 속한 항목)은 복원하지 않습니다. 필요하면 휴지통 탭에서 복원하세요.</p>
+                            <ul className="list-disc list-inside mt-1">
+                                {skippedRecords.slice(0, 10).map(({ name, record }) => (
+                                    <li key={`${name}/${record.id}`}>{`${COLLECTION_LABELS[name]}: ${String(record[NAME_FIELDS[name]] ?? record.id)}`}</li>
+                                ))}
+                                {skippedRecords.length > 10 && <li>{`외 ${skippedRecords.length - 10}건`}</li>}
+                            </ul>
+                        </div>
+                    )}
+                    {totalChanges === 0 ? (
+                        <p className="text-sm text-gray-500">현재 카탈로그가 백업과 같습니다.</p>
+                    ) : (
+                        <Button variant="danger" onClick={handleRestore} disabled={isBusy || !canDelete}>
+                            {isRestoring ? '복원 중...' : `${totalChanges}건 변경하여 복원`}
+                        </Button>
+                    )}
+                </div>
+            )}
+
+            {progress && (
+                <div className="mt-3">
+                    <div className="w-full bg-gray-200 rounded-full h-2.5">
+                        <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 100}%` }} />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">{progress.done} / {progress.total} 건 처리됨</p>
+                </div>
+            )}
+        </section>
+
+        {message && <p className="p-3 bg-green-50 text-green-800 rounded-md text-sm">{message}</p>}
+        {error && <p className="p-3 bg-red-50 text-red-700 rounded-md text-sm whitespace-pre-line">{error}</p>}
+      </div>
+    );
+};
+
+export default CatalogBackup;
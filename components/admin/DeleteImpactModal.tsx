@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { DocumentData } from 'firebase/firestore';
+import { AuditCascadeEntry } from '../../types';
+import { COLLECTION_LABELS } from '../../services/catalogBackupService';
+import { TrashCollection, REASSIGNABLE_CHILDREN, findCascadeChildren, reassignChildren, moveToTrash } from '../../services/trashService';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import Modal from '../ui/Modal';
+
+export interface DeleteTarget {
+    collection: TrashCollection;
+    id: string;
+    name: string;
+    before: DocumentData;
+}
+
+interface DeleteImpactModalProps {
+    target: DeleteTarget | null;
+    onClose: () => void;
+    requestDelete: (deleteFn: () => Promise<void>) => void;
+    // Documents of the same collection that the children can be moved to instead.
+    reassignTargets: { id: string; name: string }[];
+}
+
+// How many names to list per collection before summarizing the rest.
+const MAX_LISTED_NAMES = 50;
+
+type Phase = 'preview' | 'reassigning' | 'trashing';
+
+// Shows what a delete will take with it and lets the children be reassigned first.
+const DeleteImpactModal: React.FC<DeleteImpactModalProps> = ({ target, onClose, requestDelete, reassignTargets }) => {
+    const [children, setChildren] = useState<AuditCascadeEntry[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [reassignTo, setReassignTo] = useState('');
+    const [phase, setPhase] = useState<Phase>('preview');
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+    useEffect(() => {
+        if (!target) return;
+        let cancelled = false;
+        setChildren([]);
+        setReassignTo('');
+        setPhase('preview');
+        setProgress(null);
+        setError(null);
+        setIsLoading(true);
+        findCascadeChildren(target.collection, target.id)
+            .then(result => { if (!cancelled) setChildren(result); })
+            .catch(err => { if (!cancelled) setError(`삭제 영향 범위를 확인하지 못했습니다. (오류: ${(err as Error).message})`); })
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [target]);
+
+    const reassignable = target ? REASSIGNABLE_CHILDREN[target.collection] : undefined;
+    const directChildren = useMemo(
+        () => children.filter(child => child.Collection === reassignable?.collection),
+        [children, reassignable]
+    );
+
+    // With reassignment the children move away, so only the document itself is trashed.
+    const groups = useMemo(() => {
+        const affected = reassignTo ? [] : children;
+        return (['Cities', 'Products'] as TrashCollection[])
+            .map(name => ({ name, items: affected.filter(child => child.Collection === name) }))
+            .filter(group => group.items.length > 0);
+    }, [children, reassignTo]);
+
+    const isRunning = phase !== 'preview';
+
+    const handleClose = () => {
+        if (isRunning) return;
+        onClose();
+    };
+
+    const handleConfirm = () => {
+        if (!target) return;
+        requestDelete(async () => {
+            setError(null);
+            try {
+                if (reassignTo) {
+                    setPhase('reassigning');
+                    await reassignChildren(target.collection, target.id, reassignTo, (done, total) => setProgress({ done, total }));
+                }
+                setPhase('trashing');
+                await moveToTrash(target.collection, target.id, target.before, (done, total) => setProgress({ done, total }));
+                setPhase('preview');
+                onClose();
+            } catch (err) {
+                console.error("Error deleting with cascade:", err);
+                setPhase('preview');
+                setError(`삭제 중 오류가 발생했습니다. 휴지통 탭에서 미완료 항목을 이어서 처리하거나 다시 시도하세요. (오류: ${(err as Error).message})`);
+            }
+        });
+    };
+
+    if (!target) return null;
+
+    const collectionLabel = COLLECTION_LABELS[target.collection];
+    const childLabel = reassignable ? COLLECTION_LABELS[reassignable.collection] : '';
+
+    return (
+        <Modal isOpen={target !== null} onClose={handleClose} title={`${collectionLabel} 삭제: ${target.name}`} size="lg">
+            <div className="space-y-4">
+                {isLoading ? <p>삭제 영향 범위 확인 중...</p> : (
+                    <>
+                        {reassignable && directChildren.length > 0 && (
+                            <div className="p-3 bg-gray-50 rounded-md space-y-2">
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input type="radio" name="delete-mode" checked={reassignTo === ''} onChange={() => setReassignTo('')} disabled={isRunning} />
+                                    하위 {childLabel} {directChildren.length}개를 함께 휴지통으로 이동
+                                </label>
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="radio"
+                                        name="delete-mode"
+                                        checked={reassignTo !== ''}
+                                        onChange={() => setReassignTo(reassignTargets[0]?.id || '')}
+                                        disabled={isRunning || reassignTargets.length === 0}
+                                    />
+                                    하위 {childLabel}을(를) 다른 {collectionLabel}(으)로 옮긴 뒤 삭제
+                                </label>
+                                {reassignTo !== '' && (
+                                    <Select label={`옮길 ${collectionLabel}`} id="reassign-target" value={reassignTo} onChange={e => setReassignTo(e.target.value)} disabled={isRunning}>
+                                        {reassignTargets.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                    </Select>
+                                )}
+                            </div>
+                        )}
+
+                        {groups.length === 0 ? (
+                            <p className="text-sm text-gray-700">이 {collectionLabel}만 휴지통으로 이동합니다. 함께 삭제되는 항목은 없습니다.</p>
+                        ) : (
+                            <div>
+                                <p className="text-sm font-semibold text-red-700 mb-2">
+                                    다음 항목이 함께 휴지통으로 이동합니다: {groups.map(g => `${COLLECTION_LABELS[g.name]} ${g.items.length}개`).join(', ')}
+                                </p>
+                                <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md p-3 space-y-3 text-sm">
+                                    {groups.map(group => (
+                                        <div key={group.name}>
+                                            <p className="font-medium text-gray-700">{COLLECTION_LABELS[group.name]}</p>
+                                            <p className="text-gray-600">
+                                                {group.items.slice(0, MAX_LISTED_NAMES).map(item => item.DocumentName).join(', ')}
+                                                {group.items.length > MAX_LISTED_NAMES && ` 외 ${group.items.length - MAX_LISTED_NAMES}개`}
+                                            </p>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {progress && isRunning && (
+                    <div>
+                        <p className="text-sm text-gray-600 mb-1">{phase === 'reassigning' ? `${childLabel} 옮기는 중...` : '휴지통으로 이동 중...'}</p>
+                        <div className="w-full bg-gray-200 rounded-full h-2.5">
+                            <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 100}%` }} />
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">{progress.done} / {progress.total} 건 처리됨</p>
+                    </div>
+                )}
+
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                <div className="flex justify-end gap-2 pt-2">
+                    <Button variant="secondary" onClick={handleClose} disabled={isRunning}>취소</Button>
+                    <Button variant="danger" onClick={handleConfirm} disabled={isLoading || isRunning}>
+                        {isRunning ? '처리 중...' : '삭제 계속'}
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default DeleteImpactModal;
@@ -0,0 +1,153 @@
+import React, { useState, useMemo } from 'react';
+import { db } from '../../firebase';
+import { collection, doc, addDoc, updateDoc, deleteDoc, serverTimestamp } from 'firebase/firestore';
+import { useFirestoreCollection } from '../../hooks/useFirestoreCollection';
+import { ExchangeRate, CurrencyCode } from '../../types';
+import { CURRENCIES, BASE_CURRENCY, todayDateString, getRateToBase } from '../../services/currencyService';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+
+const FOREIGN_CURRENCIES = CURRENCIES.filter(c => c.code !== BASE_CURRENCY);
+
+interface ManageExchangeRatesProps {
+    requestDelete: (deleteFn: () => Promise<void>) => void;
+    canDelete: boolean;
+}
+
+// Component to Manage Exchange Rates
+const ManageExchangeRates: React.FC<ManageExchangeRatesProps> = ({ requestDelete, canDelete }) => {
+    const { data: rates, loading } = useFirestoreCollection<ExchangeRate>('ExchangeRates');
+    const [currency, setCurrency] = useState<CurrencyCode>(FOREIGN_CURRENCIES[0].code);
+    const [rate, setRate] = useState('');
+    const [effectiveDate, setEffectiveDate] = useState(todayDateString());
+    const [editing, setEditing] = useState<ExchangeRate | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    const today = todayDateString();
+
+    const ratesByCurrency = useMemo(() => {
+        return FOREIGN_CURRENCIES.map(c => ({
+            ...c,
+            rates: rates
+                .filter(r => r.Currency === c.code)
+                .sort((a, b) => b.EffectiveDate.localeCompare(a.EffectiveDate)),
+            currentRate: getRateToBase(rates, c.code, today),
+        })).filter(group => group.rates.length > 0);
+    }, [rates, today]);
+
+    const handleEdit = (exchangeRate: ExchangeRate) => {
+        setEditing(exchangeRate);
+        setCurrency(exchangeRate.Currency);
+        setRate(String(exchangeRate.RateToKRW));
+        setEffectiveDate(exchangeRate.EffectiveDate);
+    }
+
+    const handleCancelEdit = () => {
+        setEditing(null);
+        setRate('');
+        setEffectiveDate(todayDateString());
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const rateValue = parseFloat(rate);
+        if (!rateValue || rateValue <= 0 || !effectiveDate) return;
+
+        setIsSubmitting(true);
+        setSubmitError(null);
+        try {
+            const payload = {
+                Currency: currency,
+                RateToKRW: rateValue,
+                EffectiveDate: effectiveDate,
+                LastModified: serverTimestamp(),
+            };
+            if (editing) {
+                await updateDoc(doc(db, 'ExchangeRates', editing.id), payload);
+            } else {
+                await addDoc(collection(db, 'ExchangeRates'), payload);
+            }
+            handleCancelEdit();
+        } catch (error) {
+            console.error("Error saving exchange rate:", error);
+            setSubmitError(`환율 저장에 실패했습니다. (오류: ${(error as Error).message})`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDelete = (id: string) => {
+        requestDelete(async () => {
+            setProcessingId(id);
+            setSubmitError(null);
+            try {
+                await deleteDoc(doc(db, 'ExchangeRates', id));
+            } catch (error) {
+                console.error("Error deleting exchange rate:", error);
+                alert(`환율 삭제에 실패했습니다. (오류: ${(error as Error).message})`);
+            } finally {
+                setProcessingId(null);
+            }
+        });
+    }
+
+    const isBusy = isSubmitting || processingId !== null;
+
+    return (
+      <div>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-2 items-end">
+            <Select label="통화" id="rate-currency" value={currency} onChange={e => setCurrency(e.target.value as CurrencyCode)}>
+                {FOREIGN_CURRENCIES.map(c => <option key={c.code} value={c.code}>{`${c.code} (${c.name})`}</option>)}
+            </Select>
+            <Input label={`1 ${currency} = ? ₩`} id="rate-value" type="number" step="any" min="0" value={rate} onChange={e => setRate(e.target.value)} placeholder="예: 9.12" required />
+            <Input label="적용 시작일" id="rate-date" type="date" value={effectiveDate} onChange={e => setEffectiveDate(e.target.value)} required />
+            <div className="flex gap-2">
+                <Button type="submit" disabled={isBusy}>{isSubmitting ? '저장 중...' : (editing ? '업데이트' : '추가')}</Button>
+                {editing && <Button variant="secondary" onClick={handleCancelEdit} disabled={isBusy}>취소</Button>}
+            </div>
+        </form>
+        <p className="text-xs text-gray-500 mb-4">견적에는 각 통화별로 적용 시작일이 기준일 이전인 가장 최근 환율이 적용됩니다.</p>
+        {submitError && <p className="text-red-500 my-2">{submitError}</p>}
+        {loading ? <p>로딩 중...</p> : ratesByCurrency.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4 bg-gray-50 rounded-md">등록된 환율이 없습니다.</p>
+        ) : (
+            <div className="space-y-6">
+                {ratesByCurrency.map(group => (
+                    <div key={group.code}>
+                        <h4 className="font-semibold text-md text-blue-800 bg-blue-50 px-3 py-1.5 rounded-md mb-2">
+                            {`${group.code} (${group.name})`}
+                            <span className="ml-2 text-sm font-normal text-gray-600">
+                                현재 적용: {group.currentRate !== null ? `₩${group.currentRate.toLocaleString('ko-KR', { maximumFractionDigits: 4 })}` : '없음'}
+                            </span>
+                        </h4>
+                        <ul className="space-y-2">
+                            {group.rates.map(r => {
+                                const isCurrentProcessing = processingId === r.id;
+                                return (
+                                    <li key={r.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
+                                        <span>
+                                            {`1 ${r.Currency} = ₩${r.RateToKRW.toLocaleString('ko-KR', { maximumFractionDigits: 4 })}`}
+                                            <span className="text-sm text-gray-500"> ({r.EffectiveDate}부터)</span>
+                                        </span>
+                                        <div className="space-x-2">
+                                            <Button size="sm" variant="secondary" onClick={() => handleEdit(r)} disabled={isBusy}>수정</Button>
+                                            <Button size="sm" variant="danger" onClick={() => handleDelete(r.id)} disabled={isBusy || !canDelete}>
+                                                {isCurrentProcessing ? '삭제 중...' : '삭제'}
+                                            </Button>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                ))}
+            </div>
+        )}
+      </div>
+    );
+};
+
+export default ManageExchangeRates;
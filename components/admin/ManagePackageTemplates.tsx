@@ -0,0 +1,152 @@
+import React, { useState, useMemo } from 'react';
+import { useFirestoreCollection } from '../../hooks/useFirestoreCollection';
+import { PackageTemplate, PackageTemplateDay } from '../../types';
+import { PACKAGE_TEMPLATES_COLLECTION, updatePackageTemplate, deletePackageTemplate, countTemplateItems } from '../../services/packageTemplateService';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Modal from '../ui/Modal';
+
+interface ManagePackageTemplatesProps {
+    requestDelete: (deleteFn: () => Promise<void>) => void;
+    canDelete: boolean;
+}
+
+const formatTemplateRoute = (template: PackageTemplate): string => {
+    return template.Days.map(day => day.CityName || '도시 미지정').join(' → ');
+}
+
+// Component to Manage Package Templates saved from the quote builder
+const ManagePackageTemplates: React.FC<ManagePackageTemplatesProps> = ({ requestDelete, canDelete }) => {
+    const { data: templates, loading } = useFirestoreCollection<PackageTemplate>(PACKAGE_TEMPLATES_COLLECTION);
+    const [editing, setEditing] = useState<PackageTemplate | null>(null);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [templateDays, setTemplateDays] = useState<PackageTemplateDay[]>([]);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    const sortedTemplates = useMemo(
+        () => [...templates].sort((a, b) => a.TemplateName.localeCompare(b.TemplateName)),
+        [templates]
+    );
+
+    const handleEdit = (template: PackageTemplate) => {
+        setEditing(template);
+        setName(template.TemplateName);
+        setDescription(template.Description || '');
+        setTemplateDays(template.Days);
+        setSubmitError(null);
+    }
+
+    const handleCloseEdit = () => {
+        setEditing(null);
+        setSubmitError(null);
+    }
+
+    const removeItem = (dayIndex: number, itemIndex: number) => {
+        setTemplateDays(current => current.map((day, index) =>
+            index === dayIndex ? { ...day, Items: day.Items.filter((_, i) => i !== itemIndex) } : day
+        ));
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!editing || !name.trim()) return;
+        if (templateDays.length === 0) {
+            setSubmitError('패키지에는 최소 1개의 일차가 있어야 합니다.');
+            return;
+        }
+
+        setIsSubmitting(true);
+        setSubmitError(null);
+        try {
+            await updatePackageTemplate(editing.id, { TemplateName: name, Description: description, Days: templateDays });
+            handleCloseEdit();
+        } catch (error) {
+            console.error("Error saving package template:", error);
+            setSubmitError(`패키지 저장에 실패했습니다. (오류: ${(error as Error).message})`);
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleDelete = (id: string) => {
+        requestDelete(async () => {
+            setProcessingId(id);
+            try {
+                await deletePackageTemplate(id);
+            } catch (error) {
+                console.error("Error deleting package template:", error);
+                alert(`패키지 삭제에 실패했습니다. (오류: ${(error as Error).message})`);
+            } finally {
+                setProcessingId(null);
+            }
+        });
+    }
+
+    const isBusy = isSubmitting || processingId !== null;
+
+    return (
+      <div>
+        <p className="text-xs text-gray-500 mb-4">패키지는 견적 작성 화면의 "패키지로 저장"으로 만들 수 있습니다. 견적에 넣을 때는 항상 현재 상품 가격으로 다시 계산됩니다.</p>
+        {loading ? <p>로딩 중...</p> : sortedTemplates.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4 bg-gray-50 rounded-md">등록된 패키지가 없습니다.</p>
+        ) : (
+            <ul className="space-y-2">
+                {sortedTemplates.map(template => (
+                    <li key={template.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
+                        <div>
+                            <p className="font-medium">{template.TemplateName}</p>
+                            <p className="text-sm text-gray-500">
+                                {`${template.Days.length}일 · 상품 ${countTemplateItems(template)}개 · ${formatTemplateRoute(template)}`}
+                            </p>
+                            {template.Description && <p className="text-sm text-gray-600">{template.Description}</p>}
+                        </div>
+                        <div className="space-x-2 flex-shrink-0">
+                            <Button size="sm" variant="secondary" onClick={() => handleEdit(template)} disabled={isBusy}>수정</Button>
+                            <Button size="sm" variant="danger" onClick={() => handleDelete(template.id)} disabled={isBusy || !canDelete}>
+                                {processingId === template.id ? '삭제 중...' : '삭제'}
+                            </Button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        )}
+
+        <Modal isOpen={editing !== null} onClose={handleCloseEdit} title="패키지 수정" size="lg">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <Input label="패키지명" id="template-name" value={name} onChange={e => setName(e.target.value)} required />
+                <Input label="설명" id="template-description" value={description} onChange={e => setDescription(e.target.value)} />
+                <div className="space-y-3 max-h-96 overflow-y-auto">
+                    {templateDays.map((day, dayIndex) => (
+                        <div key={dayIndex} className="p-3 bg-gray-50 rounded-md">
+                            <div className="flex justify-between items-center mb-2">
+                                <span className="font-semibold">{`${dayIndex + 1}일차 · ${day.CityName || '도시 미지정'}`}</span>
+                                <Button size="sm" variant="danger" type="button" onClick={() => setTemplateDays(current => current.filter((_, i) => i !== dayIndex))}>일차 삭제</Button>
+                            </div>
+                            {day.Items.length === 0 ? <p className="text-sm text-gray-500">상품 없음</p> : (
+                                <ul className="space-y-1 text-sm">
+                                    {day.Items.map((item, itemIndex) => (
+                                        <li key={itemIndex} className="flex justify-between items-center">
+                                            <span>{item.ProductName}{item.Quantity !== undefined && <span className="text-gray-500"> × {item.Quantity}</span>}</span>
+                                            <button type="button" className="text-red-500 hover:text-red-700 text-xs" onClick={() => removeItem(dayIndex, itemIndex)}>제거</button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    ))}
+                </div>
+                {submitError && <p className="text-red-500 text-sm">{submitError}</p>}
+                <div className="flex justify-end gap-2 pt-2">
+                    <Button type="button" variant="secondary" onClick={handleCloseEdit} disabled={isSubmitting}>취소</Button>
+                    <Button type="submit" disabled={isSubmitting}>{isSubmitting ? '저장 중...' : '저장'}</Button>
+                </div>
+            </form>
+        </Modal>
+      </div>
+    );
+};
+
+export default ManagePackageTemplates;
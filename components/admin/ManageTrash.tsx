@@ -0,0 +1,134 @@
+import React, { useState, useMemo } from 'react';
+import { useFirestoreCollection } from '../../hooks/useFirestoreCollection';
+import { TrashEntry } from '../../types';
+import { COLLECTION_LABELS, CatalogCollection } from '../../services/catalogBackupService';
+import { TRASH_RETENTION_DAYS, canPurge, getPurgeDate, loadTrashItems, restoreFromTrash, purgeTrash, resumeTrash } from '../../services/trashService';
+import Button from '../ui/Button';
+import CascadeDetails from './CascadeDetails';
+
+const collectionLabel = (name: string) => COLLECTION_LABELS[name as CatalogCollection] || name;
+
+interface ManageTrashProps {
+    requestDelete: (deleteFn: () => Promise<void>) => void;
+    canDelete: boolean;
+}
+
+// Component to restore or permanently delete trashed catalog entries
+const ManageTrash: React.FC<ManageTrashProps> = ({ requestDelete, canDelete }) => {
+    const { data: entries, loading } = useFirestoreCollection<TrashEntry>('Trash');
+    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+    const sortedEntries = useMemo(() => {
+        return [...entries].sort((a, b) => (b.DeletedAt?.toMillis() ?? 0) - (a.DeletedAt?.toMillis() ?? 0));
+    }, [entries]);
+
+    const handleProgress = (done: number, total: number) => setProgress({ done, total });
+
+    const handleRestore = async (entry: TrashEntry) => {
+        setProcessingId(entry.id);
+        try {
+            await restoreFromTrash(entry, handleProgress);
+        } catch (error) {
+            console.error("Error restoring from trash:", error);
+            alert(`복원에 실패했습니다. (오류: ${(error as Error).message})`);
+        } finally {
+            setProcessingId(null);
+            setProgress(null);
+        }
+    }
+
+    // Finishes a move to the trash that was interrupted part way through.
+    const handleResume = async (entry: TrashEntry) => {
+        setProcessingId(entry.id);
+        try {
+            await resumeTrash(entry, handleProgress);
+        } catch (error) {
+            console.error("Error resuming trash move:", error);
+            alert(`휴지통 이동을 마치지 못했습니다. (오류: ${(error as Error).message})`);
+        } finally {
+            setProcessingId(null);
+            setProgress(null);
+        }
+    }
+
+    const handlePurge = (entry: TrashEntry) => {
+        requestDelete(async () => {
+            setProcessingId(entry.id);
+            try {
+                await purgeTrash(entry, handleProgress);
+            } catch (error) {
+                console.error("Error purging trash:", error);
+                alert(`영구 삭제에 실패했습니다. (오류: ${(error as Error).message})`);
+            } finally {
+                setProcessingId(null);
+                setProgress(null);
+            }
+        });
+    }
+
+    return (
+      <div>
+        <p className="text-sm text-gray-600 mb-4">
+            삭제한 항목은 함께 삭제된 하위 항목과 함께 이곳에 보관되며, 한 번에 복원할 수 있습니다. {TRASH_RETENTION_DAYS}일이 지난 항목은 영구 삭제할 수 있습니다.
+        </p>
+        {loading ? <p>로딩 중...</p> : sortedEntries.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4 bg-gray-50 rounded-md">휴지통이 비어 있습니다.</p>
+        ) : (
+            <ul className="space-y-2">
+                {sortedEntries.map(entry => {
+                    const purgeDate = getPurgeDate(entry);
+                    const childCount = entry.ItemCount - 1;
+                    const isCurrentProcessing = processingId === entry.id;
+                    return (
+                        <li key={entry.id} className="p-3 bg-gray-50 rounded">
+                            <div className="flex justify-between items-center">
+                                <div>
+                                    <p className="font-medium">
+                                        <span className="text-xs text-gray-500 mr-2">{collectionLabel(entry.RootCollection)}</span>
+                                        {entry.RootName}
+                                        {entry.InProgress && <span className="ml-2 px-2 py-0.5 rounded text-xs font-semibold bg-yellow-100 text-yellow-800">미완료</span>}
+                                    </p>
+                                    <p className="text-xs text-gray-500">
+                                        {entry.DeletedBy || '알 수 없음'} · {entry.DeletedAt ? entry.DeletedAt.toDate().toLocaleString('ko-KR') : 'N/A'}
+                                        {purgeDate && ` · ${purgeDate.toLocaleDateString('sv-SE')}부터 영구 삭제 가능`}
+                                    </p>
+                                </div>
+                                <div className="space-x-2">
+                                    {entry.InProgress && (
+                                        <Button size="sm" variant="danger" onClick={() => handleResume(entry)} disabled={processingId !== null || !canDelete}>
+                                            계속
+                                        </Button>
+                                    )}
+                                    <Button size="sm" variant="secondary" onClick={() => handleRestore(entry)} disabled={processingId !== null || !canDelete}>
+                                        {isCurrentProcessing ? '처리 중...' : '복원'}
+                                    </Button>
+                                    <Button size="sm" variant="danger" onClick={() => handlePurge(entry)} disabled={processingId !== null || !canDelete || !canPurge(entry)}>
+                                        영구 삭제
+                                    </Button>
+                                </div>
+                            </div>
+                            {isCurrentProcessing && progress && (
+                                <div className="mt-2">
+                                    <div className="w-full bg-gray-200 rounded-full h-2">
+                                        <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 100}%` }} />
+                                    </div>
+                                    <p className="text-xs text-gray-500 mt-1">{progress.done} / {progress.total} 건 처리됨</p>
+                                </div>
+                            )}
+                            {childCount > 0 && (
+                                <CascadeDetails
+                                    summary={`함께 삭제된 항목 ${childCount}개`}
+                                    load={async () => (await loadTrashItems(entry.id)).filter(item => item.DocumentId !== entry.RootId)}
+                                />
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        )}
+      </div>
+    );
+};
+
+export default ManageTrash;
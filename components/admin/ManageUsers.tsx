@@ -0,0 +1,72 @@
+import React, { useState, useMemo } from 'react';
+import { useFirestoreCollection } from '../../hooks/useFirestoreCollection';
+import { UserProfile, UserRole } from '../../types';
+import { ROLES, updateUserRole } from '../../services/authService';
+
+interface ManageUsersProps {
+    currentUserId: string;
+}
+
+// Component to Manage user roles (owner only)
+const ManageUsers: React.FC<ManageUsersProps> = ({ currentUserId }) => {
+    const { data: users, loading } = useFirestoreCollection<UserProfile>('Users');
+    const [processingId, setProcessingId] = useState<string | null>(null);
+
+    const sortedUsers = useMemo(() => {
+        return [...users].sort((a, b) => (a.DisplayName || a.Email).localeCompare(b.DisplayName || b.Email));
+    }, [users]);
+
+    const handleRoleChange = async (user: UserProfile, role: UserRole) => {
+        if (role === user.Role) return;
+        setProcessingId(user.id);
+        try {
+            await updateUserRole(user.id, role);
+        } catch (error) {
+            console.error("Error updating user role:", error);
+            alert(`권한 변경에 실패했습니다. (오류: ${(error as Error).message})`);
+        } finally {
+            setProcessingId(null);
+        }
+    }
+
+    return (
+      <div>
+        <ul className="text-sm text-gray-600 mb-4 space-y-1">
+            {ROLES.map(r => <li key={r.role}><span className="font-semibold">{r.label}</span>: {r.description}</li>)}
+        </ul>
+        <p className="text-xs text-gray-500 mb-4">새 사용자는 로그인 화면에서 직접 가입하며 승인 대기 상태로 시작합니다. 조회자 이상으로 변경해야 데이터를 볼 수 있습니다. 본인의 권한은 변경할 수 없습니다.</p>
+        {loading ? <p>로딩 중...</p> : (
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">이름</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">이메일</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">권한</th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {sortedUsers.map(user => (
+                        <tr key={user.id}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">{user.DisplayName || '-'}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">{user.Email}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm">
+                                <select
+                                    className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                                    value={user.Role}
+                                    onChange={e => handleRoleChange(user, e.target.value as UserRole)}
+                                    disabled={user.id === currentUserId || processingId !== null}
+                                >
+                                    {ROLES.map(r => <option key={r.role} value={r.role}>{r.label}</option>)}
+                                </select>
+                                {processingId === user.id && <span className="ml-2 text-xs text-gray-500">저장 중...</span>}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        )}
+      </div>
+    );
+};
+
+export default ManageUsers;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { PricingType, ProductPricePeriod } from '../../types';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { WEEKDAY_LABELS } from '../../services/itineraryService';
+
+type PriceField = 'Price_Adult' | 'Price_Child' | 'Price_Infant' | 'Price_Unit' | 'Cost_Adult' | 'Cost_Child' | 'Cost_Infant' | 'Cost_Unit';
+
+const PER_PERSON_FIELDS: { field: PriceField; label: string; target: string }[] = [
+    { field: 'Price_Adult', label: '가격', target: '성인' },
+    { field: 'Price_Child', label: '가격', target: '아동' },
+    { field: 'Price_Infant', label: '가격', target: '유아' },
+    { field: 'Cost_Adult', label: '원가', target: '성인' },
+    { field: 'Cost_Child', label: '원가', target: '아동' },
+    { field: 'Cost_Infant', label: '원가', target: '유아' },
+];
+
+const PER_UNIT_FIELDS: { field: PriceField; label: string; target: string }[] = [
+    { field: 'Price_Unit', label: '가격', target: '단위' },
+    { field: 'Cost_Unit', label: '원가', target: '단위' },
+];
+
+export const createEmptyPricePeriod = (): ProductPricePeriod => ({
+    Id: crypto.randomUUID(),
+    Name: '',
+    StartDate: '',
+    EndDate: '',
+});
+
+/** Returns an error message for the first invalid period, or null when all of them are valid. */
+export const validatePricePeriods = (periods: ProductPricePeriod[]): string | null => {
+    for (const period of periods) {
+        const name = period.Name.trim() || '(이름 없음)';
+        if (!period.Name.trim()) return '요금 기간의 이름을 입력하세요.';
+        if (!period.StartDate || !period.EndDate) return `요금 기간 "${name}"의 시작일과 종료일을 입력하세요.`;
+        if (period.StartDate > period.EndDate) return `요금 기간 "${name}"의 종료일이 시작일보다 빠릅니다.`;
+    }
+    return null;
+};
+
+/** Drops the prices that do not belong to `pricingType`, so switching types leaves no stale values. */
+export const normalizePricePeriods = (periods: ProductPricePeriod[], pricingType: PricingType): ProductPricePeriod[] => {
+    const fields = pricingType === 'PerPerson' ? PER_PERSON_FIELDS : PER_UNIT_FIELDS;
+    return periods.map(period => {
+        const normalized: ProductPricePeriod = {
+            Id: period.Id,
+            Name: period.Name.trim(),
+            StartDate: period.StartDate,
+            EndDate: period.EndDate,
+        };
+        if (period.Weekdays && period.Weekdays.length > 0) {
+            normalized.Weekdays = [...period.Weekdays].sort((a, b) => a - b);
+        }
+        fields.forEach(({ field }) => { normalized[field] = period[field] || 0; });
+        return normalized;
+    });
+};
+
+interface PricePeriodEditorProps {
+    periods: ProductPricePeriod[];
+    onChange: (periods: ProductPricePeriod[]) => void;
+    pricingType: PricingType;
+    currencySymbol: string;
+}
+
+// Edits the seasonal / weekday rates of a product inside the product modal
+const PricePeriodEditor: React.FC<PricePeriodEditorProps> = ({ periods, onChange, pricingType, currencySymbol }) => {
+    const fields = pricingType === 'PerPerson' ? PER_PERSON_FIELDS : PER_UNIT_FIELDS;
+
+    const updatePeriod = (id: string, changes: Partial<ProductPricePeriod>) => {
+        onChange(periods.map(period => period.Id === id ? { ...period, ...changes } : period));
+    };
+
+    const toggleWeekday = (period: ProductPricePeriod, weekday: number) => {
+        const current = period.Weekdays || [];
+        const next = current.includes(weekday) ? current.filter(d => d !== weekday) : [...current, weekday];
+        updatePeriod(period.Id, { Weekdays: next });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex justify-between items-center">
+                <h4 className="text-sm font-semibold text-gray-700">기간별 요금</h4>
+                <Button size="sm" variant="secondary" type="button" onClick={() => onChange([...periods, createEmptyPricePeriod()])}>+ 요금 기간 추가</Button>
+            </div>
+            {periods.length === 0 ? (
+                <p className="text-xs text-gray-500">등록된 요금 기간이 없으면 항상 기본 가격이 적용됩니다.</p>
+            ) : (
+                periods.map(period => (
+                    <div key={period.Id} className="p-3 bg-gray-50 rounded-md space-y-3">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                            <Input label="이름" id={`period-name-${period.Id}`} value={period.Name} placeholder="예: 성수기, 주말" onChange={e => updatePeriod(period.Id, { Name: e.target.value })} />
+                            <Input label="시작일" id={`period-start-${period.Id}`} type="date" value={period.StartDate} onChange={e => updatePeriod(period.Id, { StartDate: e.target.value })} />
+                            <Input label="종료일" id={`period-end-${period.Id}`} type="date" value={period.EndDate} onChange={e => updatePeriod(period.Id, { EndDate: e.target.value })} />
+                        </div>
+                        <div className="flex flex-wrap items-center gap-3 text-sm">
+                            <span className="text-gray-600">요일</span>
+                            {WEEKDAY_LABELS.map((label, weekday) => (
+                                <label key={label} className="flex items-center gap-1">
+                                    <input type="checkbox" checked={period.Weekdays?.includes(weekday) ?? false} onChange={() => toggleWeekday(period, weekday)} />
+                                    {label}
+                                </label>
+                            ))}
+                            <span className="text-xs text-gray-500">(선택하지 않으면 매일 적용)</span>
+                        </div>
+                        <div className={`grid gap-3 ${pricingType === 'PerPerson' ? 'grid-cols-3' : 'grid-cols-2'}`}>
+                            {fields.map(({ field, label, target }) => (
+                                <Input
+                                    key={field}
+                                    label={`${label} (${target}, ${currencySymbol})`}
+                                    id={`period-${field}-${period.Id}`}
+                                    type="number"
+                                    value={period[field] ?? 0}
+                                    onChange={e => updatePeriod(period.Id, { [field]: parseFloat(e.target.value) || 0 })}
+                                />
+                            ))}
+                        </div>
+                        <div className="text-right">
+                            <Button size="sm" variant="danger" type="button" onClick={() => onChange(periods.filter(p => p.Id !== period.Id))}>기간 삭제</Button>
+                        </div>
+                    </div>
+                ))
+            )}
+            {periods.length > 0 && (
+                <p className="text-xs text-gray-500">견적의 해당 일차 날짜에 맞는 기간의 요금이 적용됩니다. 여러 기간이 겹치면 요일이 지정된 기간, 그다음 기간이 짧은 쪽이 우선합니다.</p>
+            )}
+        </div>
+    );
+};
+
+export default PricePeriodEditor;
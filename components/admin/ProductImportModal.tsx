@@ -0,0 +1,249 @@
+import React, { useState, useMemo } from 'react';
+import { useFirestoreCollection } from '../../hooks/useFirestoreCollection';
+import { Country, City, Category, Product } from '../../types';
+import {
+    IMPORT_FIELDS,
+    ColumnMapping,
+    ParsedSheet,
+    ImportResult,
+    parseProductSheet,
+    guessColumnMapping,
+    buildImportPreview,
+    commitProductImport,
+} from '../../services/productImportService';
+import Button from '../ui/Button';
+import Select from '../ui/Select';
+import Modal from '../ui/Modal';
+
+interface ProductImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const ProductImportModal: React.FC<ProductImportModalProps> = ({ isOpen, onClose }) => {
+    const { data: countries } = useFirestoreCollection<Country>('Countries');
+    const { data: cities } = useFirestoreCollection<City>('Cities');
+    const { data: categories } = useFirestoreCollection<Category>('Categories');
+    const { data: products } = useFirestoreCollection<Product>('Products');
+
+    const [fileName, setFileName] = useState('');
+    const [sheet, setSheet] = useState<ParsedSheet | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [createMissing, setCreateMissing] = useState(false);
+    const [defaultCountryId, setDefaultCountryId] = useState('');
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [isImporting, setIsImporting] = useState(false);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [result, setResult] = useState<ImportResult | null>(null);
+
+    const missingRequired = IMPORT_FIELDS.filter(f => f.required && mapping[f.key] === undefined);
+
+    const preview = useMemo(() => {
+        if (!sheet || missingRequired.length > 0) return null;
+        return buildImportPreview(sheet, mapping, { countries, cities, categories, products }, { createMissing, defaultCountryId });
+    }, [sheet, mapping, missingRequired.length, countries, cities, categories, products, createMissing, defaultCountryId]);
+
+    const counts = useMemo(() => ({
+        create: preview?.rows.filter(r => r.action === 'create').length ?? 0,
+        update: preview?.rows.filter(r => r.action === 'update').length ?? 0,
+        error: preview?.rows.filter(r => r.action === 'error').length ?? 0,
+    }), [preview]);
+
+    const resetState = () => {
+        setFileName('');
+        setSheet(null);
+        setMapping({});
+        setParseError(null);
+        setProgress(null);
+        setResult(null);
+    }
+
+    const handleClose = () => {
+        if (isImporting) return;
+        resetState();
+        onClose();
+    }
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        resetState();
+        setFileName(file.name);
+        try {
+            const parsed = await parseProductSheet(file);
+            if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+                setParseError('가져올 데이터가 없습니다. 첫 행은 열 제목이어야 합니다.');
+                return;
+            }
+            setSheet(parsed);
+            setMapping(guessColumnMapping(parsed.headers));
+        } catch (err) {
+            console.error('파일 읽기 실패:', err);
+            setParseError(`파일을 읽을 수 없습니다. (오류: ${(err as Error).message})`);
+        }
+    };
+
+    const handleMappingChange = (field: keyof ColumnMapping, value: string) => {
+        setMapping(prev => {
+            const next = { ...prev };
+            if (value === '') delete next[field];
+            else next[field] = Number(value);
+            return next;
+        });
+    }
+
+    const handleImport = async () => {
+        if (!preview || counts.create + counts.update === 0) return;
+        setIsImporting(true);
+        setResult(null);
+        try {
+            const importResult = await commitProductImport(preview, (done, total) => setProgress({ done, total }));
+            setResult(importResult);
+            setSheet(null);
+        } catch (err) {
+            console.error('상품 가져오기 실패:', err);
+            alert(`상품 가져오기에 실패했습니다. 이미 처리된 묶음은 저장되었으니 같은 파일로 다시 시도하면 나머지가 반영됩니다. (오류: ${(err as Error).message})`);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const actionBadge = (action: 'create' | 'update' | 'error') => {
+        const styles = {
+            create: 'bg-green-100 text-green-800',
+            update: 'bg-blue-100 text-blue-800',
+            error: 'bg-red-100 text-red-800',
+        };
+        const labels = { create: '신규', update: '수정', error: '오류' };
+        return <span className={`px-2 py-0.5 rounded text-xs font-semibold ${styles[action]}`}>{labels[action]}</span>;
+    }
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose} title="상품 일괄 가져오기" size="xl">
+            <div className="space-y-6">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">CSV 또는 엑셀 파일</label>
+                    <input
+                        type="file"
+                        accept=".csv,.xlsx,.xls"
+                        onChange={handleFileChange}
+                        disabled={isImporting}
+                        className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-blue-50 file:text-blue-700 hover:file:bg-blue-100"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">첫 번째 시트의 첫 행을 열 제목으로 사용합니다. 같은 도시에 같은 상품명이 있으면 기존 상품을 수정합니다.</p>
+                    {parseError && <p className="text-red-500 text-sm mt-2">{parseError}</p>}
+                </div>
+
+                {result && (
+                    <p className="p-3 bg-green-50 text-green-800 rounded-md text-sm">
+                        가져오기 완료: 신규 {result.created}개, 수정 {result.updated}개
+                    </p>
+                )}
+
+                {sheet && (
+                    <>
+                        <div>
+                            <h4 className="font-semibold text-gray-800 mb-2">열 매핑 <span className="text-sm font-normal text-gray-500">({fileName}, {sheet.rows.length}행)</span></h4>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                                {IMPORT_FIELDS.map(field => (
+                                    <Select
+                                        key={field.key}
+                                        label={field.required ? `${field.label} *` : field.label}
+                                        id={`import-map-${field.key}`}
+                                        value={mapping[field.key] ?? ''}
+                                        onChange={e => handleMappingChange(field.key, e.target.value)}
+                                        disabled={isImporting}
+                                    >
+                                        <option value="">사용 안 함</option>
+                                        {sheet.headers.map((header, index) => (
+                                            <option key={index} value={index}>{header || `${index + 1}번째 열`}</option>
+                                        ))}
+                                    </Select>
+                                ))}
+                            </div>
+                            {missingRequired.length > 0 && (
+                                <p className="text-red-500 text-sm mt-2">필수 열을 지정하세요: {missingRequired.map(f => f.label).join(', ')}</p>
+                            )}
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                            <label className="flex items-center gap-2 text-sm text-gray-700">
+                                <input type="checkbox" checked={createMissing} onChange={e => setCreateMissing(e.target.checked)} disabled={isImporting} />
+                                없는 국가·도시·카테고리를 새로 만들기
+                            </label>
+                            {createMissing && (
+                                <Select label="새 도시의 기본 국가 (국가 열이 비어 있을 때)" id="import-default-country" value={defaultCountryId} onChange={e => setDefaultCountryId(e.target.value)} disabled={isImporting}>
+                                    <option value="">선택 안 함</option>
+                                    {[...countries].sort((a, b) => a.CountryName.localeCompare(b.CountryName)).map(c => <option key={c.id} value={c.id}>{c.CountryName}</option>)}
+                                </Select>
+                            )}
+                        </div>
+
+                        {preview && (
+                            <div>
+                                <h4 className="font-semibold text-gray-800 mb-2">미리보기</h4>
+                                <p className="text-sm text-gray-600 mb-2">
+                                    신규 {counts.create}개 · 수정 {counts.update}개 · <span className={counts.error > 0 ? 'text-red-600 font-semibold' : ''}>오류 {counts.error}개</span>
+                                    {counts.error > 0 && ' (오류 행은 건너뜁니다)'}
+                                </p>
+                                {(preview.newCountries.length > 0 || preview.newCities.length > 0 || preview.newCategories.length > 0) && (
+                                    <p className="text-sm text-gray-600 mb-2">
+                                        새로 만들 항목 —
+                                        {preview.newCountries.length > 0 && ` 국가: ${preview.newCountries.join(', ')}`}
+                                        {preview.newCities.length > 0 && ` 도시: ${preview.newCities.map(c => c.cityName).join(', ')}`}
+                                        {preview.newCategories.length > 0 && ` 카테고리: ${preview.newCategories.join(', ')}`}
+                                    </p>
+                                )}
+                                <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-md">
+                                    <table className="min-w-full text-sm">
+                                        <thead className="bg-gray-50 sticky top-0">
+                                            <tr>
+                                                <th className="px-3 py-2 text-left font-medium text-gray-500">행</th>
+                                                <th className="px-3 py-2 text-left font-medium text-gray-500">처리</th>
+                                                <th className="px-3 py-2 text-left font-medium text-gray-500">상품명</th>
+                                                <th className="px-3 py-2 text-left font-medium text-gray-500">도시</th>
+                                                <th className="px-3 py-2 text-left font-medium text-gray-500">카테고리</th>
+                                                <th className="px-3 py-2 text-left font-medium text-gray-500">오류</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-200">
+                                            {preview.rows.map(row => (
+                                                <tr key={row.rowNumber} className={row.action === 'error' ? 'bg-red-50' : ''}>
+                                                    <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                                                    <td className="px-3 py-2">{actionBadge(row.action)}</td>
+                                                    <td className="px-3 py-2">{row.productName || '-'}</td>
+                                                    <td className="px-3 py-2">{row.cityName || '-'}</td>
+                                                    <td className="px-3 py-2">{row.categoryName || '-'}</td>
+                                                    <td className="px-3 py-2 text-red-600">{row.errors.join(' ')}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {progress && (
+                    <div>
+                        <div className="w-full bg-gray-200 rounded-full h-2.5">
+                            <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 100}%` }} />
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">{progress.done} / {progress.total} 건 저장됨</p>
+                    </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                    <Button variant="secondary" onClick={handleClose} disabled={isImporting}>닫기</Button>
+                    <Button onClick={handleImport} disabled={isImporting || !preview || counts.create + counts.update === 0}>
+                        {isImporting ? '가져오는 중...' : `${counts.create + counts.update}개 상품 가져오기`}
+                    </Button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default ProductImportModal;
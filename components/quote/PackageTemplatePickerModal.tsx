@@ -0,0 +1,75 @@
+import React, { useState, useMemo } from 'react';
+import { useFirestoreCollection } from '../../hooks/useFirestoreCollection';
+import { PackageTemplate } from '../../types';
+import { PACKAGE_TEMPLATES_COLLECTION, countTemplateItems } from '../../services/packageTemplateService';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Modal from '../ui/Modal';
+
+interface PackageTemplatePickerModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onInsert: (template: PackageTemplate) => Promise<void>;
+}
+
+// Lists the saved package templates so one can be added to the quote as new days
+const PackageTemplatePickerModal: React.FC<PackageTemplatePickerModalProps> = ({ isOpen, onClose, onInsert }) => {
+    const { data: templates, loading } = useFirestoreCollection<PackageTemplate>(PACKAGE_TEMPLATES_COLLECTION);
+    const [searchTerm, setSearchTerm] = useState('');
+    const [insertingId, setInsertingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const filteredTemplates = useMemo(() => {
+        const lowercasedFilter = searchTerm.trim().toLowerCase();
+        return templates
+            .filter(template => !lowercasedFilter
+                || template.TemplateName.toLowerCase().includes(lowercasedFilter)
+                || template.Days.some(day => day.CityName?.toLowerCase().includes(lowercasedFilter)))
+            .sort((a, b) => a.TemplateName.localeCompare(b.TemplateName));
+    }, [templates, searchTerm]);
+
+    const handleInsert = async (template: PackageTemplate) => {
+        setInsertingId(template.id);
+        setError(null);
+        try {
+            await onInsert(template);
+        } catch (err) {
+            console.error("Failed to insert package template:", err);
+            setError(`패키지를 불러오는 데 실패했습니다. (오류: ${(err as Error).message})`);
+        } finally {
+            setInsertingId(null);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="패키지 불러오기" size="lg">
+            <div className="space-y-4">
+                <Input label="패키지 검색" id="template-search" placeholder="패키지명 또는 도시" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} />
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+                {loading ? <p>로딩 중...</p> : filteredTemplates.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-4">{templates.length === 0 ? '저장된 패키지가 없습니다.' : '검색 결과가 없습니다.'}</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {filteredTemplates.map(template => (
+                            <li key={template.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
+                                <div>
+                                    <p className="font-semibold">{template.TemplateName}</p>
+                                    <p className="text-sm text-gray-500">
+                                        {`${template.Days.length}일 · 상품 ${countTemplateItems(template)}개 · ${template.Days.map(day => day.CityName || '도시 미지정').join(' → ')}`}
+                                    </p>
+                                    {template.Description && <p className="text-sm text-gray-600">{template.Description}</p>}
+                                </div>
+                                <Button size="sm" onClick={() => handleInsert(template)} disabled={insertingId !== null}>
+                                    {insertingId === template.id ? '추가 중...' : '일정에 추가'}
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <p className="text-xs text-gray-500">패키지의 일차가 현재 일정 뒤에 추가되며, 각 상품은 현재 상품 가격과 인원으로 다시 계산됩니다.</p>
+            </div>
+        </Modal>
+    );
+};
+
+export default PackageTemplatePickerModal;
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { CurrencyCode, QuotePriceTier } from '../../types';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { formatMoney } from '../../services/currencyService';
+import { PAX_TYPES, PAX_TYPE_LABELS } from '../../services/quoteItemService';
+
+// Largest group size accepted, so a typo can't trigger a huge recomputation.
+const MAX_GROUP_SIZE = 500;
+
+interface PriceTierTableProps {
+    sizes: number[];
+    onSizesChange: (sizes: number[]) => void;
+    tiers: QuotePriceTier[];
+    currentGroupSize: number;
+    includeInExports: boolean;
+    onIncludeInExportsChange: (include: boolean) => void;
+    currency: CurrencyCode;
+}
+
+// Edits the group sizes of the price tier table and shows the recomputed prices
+const PriceTierTable: React.FC<PriceTierTableProps> = ({ sizes, onSizesChange, tiers, currentGroupSize, includeInExports, onIncludeInExportsChange, currency }) => {
+    const [newSize, setNewSize] = useState('');
+
+    const handleAddSize = () => {
+        const size = parseInt(newSize);
+        if (!size || size < 1 || size > MAX_GROUP_SIZE) {
+            alert(`1~${MAX_GROUP_SIZE} 사이의 인원을 입력하세요.`);
+            return;
+        }
+        if (!sizes.includes(size)) onSizesChange([...sizes, size].sort((a, b) => a - b));
+        setNewSize('');
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+                <div className="w-40">
+                    <Input
+                        label="인원 (성인 + 아동)"
+                        id="tier-size"
+                        type="number"
+                        min="1"
+                        value={newSize}
+                        onChange={e => setNewSize(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleAddSize(); }}
+                    />
+                </div>
+                <Button size="sm" variant="secondary" onClick={handleAddSize} className="mb-1">+ 인원 추가</Button>
+                <label className="flex items-center gap-2 text-sm text-gray-700 mb-2 ml-auto">
+                    <input type="checkbox" checked={includeInExports} onChange={e => onIncludeInExportsChange(e.target.checked)} />
+                    내보내기 및 견적서에 포함
+                </label>
+            </div>
+
+            {tiers.length === 0 ? (
+                <p className="text-sm text-gray-500">인원을 추가하면 해당 인원 기준으로 전체 견적을 다시 계산합니다. 아동·유아 수는 현재 견적과 같게 두고 나머지를 성인으로 계산합니다.</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b bg-gray-50 text-gray-600">
+                                <th className="px-3 py-2 text-left">인원</th>
+                                {PAX_TYPES.map(paxType => <th key={paxType} className="px-3 py-2 text-right">1인 ({PAX_TYPE_LABELS[paxType]})</th>)}
+                                <th className="px-3 py-2 text-right">총액</th>
+                                <th className="px-3 py-2" />
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {tiers.map(tier => (
+                                <tr key={tier.groupSize} className={`border-b ${tier.groupSize === currentGroupSize ? 'bg-blue-50 font-semibold' : ''}`}>
+                                    <td className="px-3 py-2">
+                                        {tier.groupSize}명
+                                        <span className="text-xs text-gray-500 ml-1">(성인 {tier.pax.adults} / 아동 {tier.pax.children} / 유아 {tier.pax.infants})</span>
+                                    </td>
+                                    {PAX_TYPES.map(paxType => <td key={paxType} className="px-3 py-2 text-right">{formatMoney(tier.perPerson[paxType], currency)}</td>)}
+                                    <td className="px-3 py-2 text-right">{formatMoney(tier.total, currency)}</td>
+                                    <td className="px-3 py-2 text-right">
+                                        <Button size="sm" variant="danger" onClick={() => onSizesChange(sizes.filter(size => size !== tier.groupSize))}>삭제</Button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="text-xs text-gray-500 mt-2">수동 수정된 항목은 단가를 유지한 채 인원 수만 반영합니다. 차량·가이드 등 단위 상품은 성인과 아동이 나누어 부담합니다.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PriceTierTable;
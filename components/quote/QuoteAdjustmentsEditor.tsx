@@ -0,0 +1,161 @@
+import React from 'react';
+import { CurrencyCode, QuoteAdjustment, QuoteDay, QuoteInfo } from '../../types';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Select from '../ui/Select';
+import { formatMoney } from '../../services/currencyService';
+import { formatDayLabel } from '../../services/itineraryService';
+import { calculatePaymentSchedule, DEFAULT_TAX_LABEL, QuoteTotals } from '../../services/quoteTotalsService';
+
+const DEFAULT_DEPOSIT_PERCENT = 30;
+const DEFAULT_BALANCE_DAYS_BEFORE_DEPARTURE = 30;
+
+export const createEmptyAdjustment = (): QuoteAdjustment => ({
+    id: crypto.randomUUID(),
+    label: '',
+    kind: 'discount',
+    valueType: 'percent',
+    value: 0,
+});
+
+interface QuoteAdjustmentsEditorProps {
+    adjustments: QuoteAdjustment[];
+    onAdjustmentsChange: (adjustments: QuoteAdjustment[]) => void;
+    info: QuoteInfo;
+    onInfoChange: (changes: Pick<QuoteInfo, 'taxLabel' | 'taxPercent' | 'paymentSchedule'>) => void;
+    days: QuoteDay[];
+    totals: QuoteTotals;
+    currency: CurrencyCode;
+}
+
+// Discounts, surcharges, tax and the payment schedule of the quote being built
+const QuoteAdjustmentsEditor: React.FC<QuoteAdjustmentsEditorProps> = ({ adjustments, onAdjustmentsChange, info, onInfoChange, days, totals, currency }) => {
+    const amounts = new Map([...totals.beforeTax, ...totals.afterTax].map(a => [a.adjustment.id, a.amount]));
+    const schedule = info.paymentSchedule;
+    const payment = calculatePaymentSchedule(info, totals.total);
+
+    const updateAdjustment = (id: string, changes: Partial<QuoteAdjustment>) => {
+        onAdjustmentsChange(adjustments.map(adjustment => adjustment.id === id ? { ...adjustment, ...changes } : adjustment));
+    };
+
+    const togglePaymentSchedule = (enabled: boolean) => {
+        onInfoChange({
+            paymentSchedule: enabled
+                ? { depositPercent: DEFAULT_DEPOSIT_PERCENT, balanceDueDaysBeforeDeparture: DEFAULT_BALANCE_DAYS_BEFORE_DEPARTURE }
+                : undefined,
+        });
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                    <h3 className="font-semibold text-gray-700">할인 / 추가 요금</h3>
+                    <Button size="sm" variant="secondary" onClick={() => onAdjustmentsChange([...adjustments, createEmptyAdjustment()])}>+ 항목 추가</Button>
+                </div>
+                {adjustments.length === 0 ? (
+                    <p className="text-sm text-gray-500">등록된 할인이나 추가 요금이 없습니다.</p>
+                ) : (
+                    adjustments.map(adjustment => (
+                        <div key={adjustment.id} className="grid grid-cols-2 md:grid-cols-7 gap-3 items-end p-3 bg-gray-50 rounded-md">
+                            <div className="col-span-2">
+                                <Input label="항목명" id={`adjustment-label-${adjustment.id}`} value={adjustment.label} placeholder="예: 조기 예약 할인" onChange={e => updateAdjustment(adjustment.id, { label: e.target.value })} />
+                            </div>
+                            <Select label="구분" id={`adjustment-kind-${adjustment.id}`} value={adjustment.kind} onChange={e => updateAdjustment(adjustment.id, { kind: e.target.value as QuoteAdjustment['kind'] })}>
+                                <option value="discount">할인</option>
+                                <option value="surcharge">추가 요금</option>
+                            </Select>
+                            <div className="flex gap-2 items-end">
+                                <Input
+                                    label="값"
+                                    id={`adjustment-value-${adjustment.id}`}
+                                    type="number"
+                                    min="0"
+                                    value={adjustment.value}
+                                    onChange={e => updateAdjustment(adjustment.id, { value: Math.abs(parseFloat(e.target.value) || 0) })}
+                                />
+                                <Select label="단위" id={`adjustment-type-${adjustment.id}`} value={adjustment.valueType} onChange={e => updateAdjustment(adjustment.id, { valueType: e.target.value as QuoteAdjustment['valueType'] })}>
+                                    <option value="percent">%</option>
+                                    <option value="fixed">{currency}</option>
+                                </Select>
+                            </div>
+                            <Select label="적용 범위" id={`adjustment-scope-${adjustment.id}`} value={adjustment.dayId || ''} onChange={e => updateAdjustment(adjustment.id, { dayId: e.target.value || undefined })}>
+                                <option value="">견적 전체</option>
+                                {days.map((day, index) => <option key={day.id} value={day.id}>{formatDayLabel(info.departureDate, index)}</option>)}
+                            </Select>
+                            <Select label="세금" id={`adjustment-stage-${adjustment.id}`} value={adjustment.afterTax ? 'after' : 'before'} onChange={e => updateAdjustment(adjustment.id, { afterTax: e.target.value === 'after' || undefined })}>
+                                <option value="before">세전 적용</option>
+                                <option value="after">세후 적용</option>
+                            </Select>
+                            <div className="flex items-center justify-end gap-2">
+                                <span className={`font-semibold ${(amounts.get(adjustment.id) ?? 0) < 0 ? 'text-red-600' : 'text-gray-800'}`}>
+                                    {formatMoney(amounts.get(adjustment.id) ?? 0, currency)}
+                                </span>
+                                <Button size="sm" variant="danger" onClick={() => onAdjustmentsChange(adjustments.filter(a => a.id !== adjustment.id))}>삭제</Button>
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <Input label="세금 명칭" id="tax-label" value={info.taxLabel ?? ''} placeholder={DEFAULT_TAX_LABEL} onChange={e => onInfoChange({ taxLabel: e.target.value || undefined })} />
+                <Input
+                    label="세율 (%)"
+                    id="tax-percent"
+                    type="number"
+                    min="0"
+                    placeholder="비워두면 세금 없음"
+                    value={info.taxPercent ?? ''}
+                    onChange={e => onInfoChange({ taxPercent: e.target.value.trim() === '' ? undefined : parseFloat(e.target.value) || 0 })}
+                />
+                <p className="text-sm text-gray-600 pb-2">세금: {formatMoney(totals.taxAmount, currency)} (과세 대상 {formatMoney(totals.taxableAmount, currency)})</p>
+            </div>
+
+            <div className="space-y-3">
+                <label className="flex items-center gap-2 font-semibold text-gray-700">
+                    <input type="checkbox" checked={!!schedule} onChange={e => togglePaymentSchedule(e.target.checked)} />
+                    결제 일정 (계약금 / 잔금)
+                </label>
+                {schedule && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <Input
+                            label="계약금 (%)"
+                            id="deposit-percent"
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={schedule.depositPercent}
+                            onChange={e => onInfoChange({ paymentSchedule: { ...schedule, depositPercent: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) } })}
+                        />
+                        <Input
+                            label="계약금 납부 기한"
+                            id="deposit-due-date"
+                            type="date"
+                            value={schedule.depositDueDate || ''}
+                            onChange={e => onInfoChange({ paymentSchedule: { ...schedule, depositDueDate: e.target.value || undefined } })}
+                        />
+                        <Input
+                            label="잔금 납부 기한 (출발 N일 전)"
+                            id="balance-days"
+                            type="number"
+                            min="0"
+                            placeholder="비워두면 기한 없음"
+                            value={schedule.balanceDueDaysBeforeDeparture ?? ''}
+                            onChange={e => onInfoChange({ paymentSchedule: { ...schedule, balanceDueDaysBeforeDeparture: e.target.value.trim() === '' ? undefined : parseInt(e.target.value) || 0 } })}
+                        />
+                    </div>
+                )}
+                {payment && (
+                    <p className="text-sm text-gray-600">
+                        계약금 {formatMoney(payment.deposit, currency)}{payment.depositDueDate && ` (${payment.depositDueDate}까지)`}
+                        {' · '}잔금 {formatMoney(payment.balance, currency)}
+                        {payment.balanceDueDate ? ` (${payment.balanceDueDate}까지)` : schedule?.balanceDueDaysBeforeDeparture !== undefined && ' (출발일을 입력하면 기한이 계산됩니다)'}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default QuoteAdjustmentsEditor;
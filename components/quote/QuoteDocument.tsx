@@ -0,0 +1,194 @@
+import React from 'react';
+import { Quote, CurrencyCode } from '../../types';
+import { BASE_CURRENCY, formatMoney } from '../../services/currencyService';
+import { groupItemsByCategory, formatDayHeading, formatTravelPeriod } from '../../services/itineraryService';
+import { getItemPriceLines, PAX_TYPES, PAX_TYPE_LABELS } from '../../services/quoteItemService';
+import { calculatePaymentSchedule, getPaymentScheduleLines, getTotalLines } from '../../services/quoteTotalsService';
+
+export const COMPANY_NAME = '투어견적 프로';
+
+export const DEFAULT_QUOTE_TERMS = [
+    '본 견적은 발행일로부터 14일간 유효하며, 예약 확정 시점의 요금 및 환율에 따라 변동될 수 있습니다.',
+    '항공권, 개인 경비, 여행자 보험은 별도 명시가 없는 한 포함되지 않습니다.',
+    '예약 확정 후 취소 시 각 상품별 취소 규정에 따라 수수료가 부과됩니다.',
+].join('\n');
+
+const formatCurrency = (amount: number, currency?: CurrencyCode): string => {
+    return formatMoney(amount, currency);
+}
+
+interface QuoteDocumentProps {
+    quote: Quote;
+    destination?: string;
+    issuedDate: string;
+}
+
+// Customer-facing quote document. Only sell prices are rendered here; internal
+// fields (costPrice, markupPercent, exchangeRate) must never be shown.
+const QuoteDocument = React.forwardRef<HTMLDivElement, QuoteDocumentProps>(({ quote, destination, issuedDate }, ref) => {
+    const { info, days, grandTotal } = quote;
+    const currency = info.currency || BASE_CURRENCY;
+    const terms = info.terms ?? DEFAULT_QUOTE_TERMS;
+    // Subtotal, adjustment and tax rows, shown above the total bar.
+    const breakdown = getTotalLines(quote).filter(line => !line.isTotal);
+    const payment = calculatePaymentSchedule(info, grandTotal);
+
+    return (
+        <div ref={ref} className="bg-white text-gray-800 p-8 w-[794px] mx-auto">
+            <div data-pdf-block className="pb-6">
+                <div className="flex justify-between items-end border-b-4 border-blue-600 pb-4">
+                    <span className="font-bold text-2xl text-blue-600">{COMPANY_NAME}</span>
+                    <span className="text-sm text-gray-500">발행일: {issuedDate}</span>
+                </div>
+                <div className="mt-8 text-center">
+                    <h1 className="text-3xl font-bold tracking-widest">여행 견적서</h1>
+                    <p className="mt-4 text-xl">{info.customerName || '고객'} 님</p>
+                </div>
+                <table className="mt-8 w-full text-sm border border-gray-300">
+                    <tbody>
+                        <tr className="border-b border-gray-300">
+                            <th className="w-1/4 bg-gray-100 px-3 py-2 text-left">여행지</th>
+                            <td className="px-3 py-2">{destination || '-'}</td>
+                        </tr>
+                        <tr className="border-b border-gray-300">
+                            <th className="bg-gray-100 px-3 py-2 text-left">인원</th>
+                            <td className="px-3 py-2">{`성인 ${info.pax.adults}명, 아동 ${info.pax.children}명, 유아 ${info.pax.infants}명`}</td>
+                        </tr>
+                        <tr className={info.validUntil ? 'border-b border-gray-300' : undefined}>
+                            <th className="bg-gray-100 px-3 py-2 text-left">일정</th>
+                            <td className="px-3 py-2">{formatTravelPeriod(info.departureDate, days.length)}</td>
+                        </tr>
+                        {info.validUntil && (
+                            <tr>
+                                <th className="bg-gray-100 px-3 py-2 text-left">견적 유효기간</th>
+                                <td className="px-3 py-2">{info.validUntil}까지</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {days.map((day, index) => (
+                <div key={day.id} data-pdf-block className="pb-6">
+                    <h2 className="font-bold text-lg bg-blue-600 text-white px-3 py-1.5">{formatDayHeading(info.departureDate, day, index)}</h2>
+                    {day.items.length === 0 ? (
+                        <p className="text-sm text-gray-500 px-3 py-3 border border-t-0 border-gray-300">자유 일정</p>
+                    ) : (
+                        <table className="w-full text-sm border border-t-0 border-gray-300">
+                            <thead>
+                                <tr className="bg-gray-100 border-b border-gray-300">
+                                    <th className="px-3 py-2 text-left">상품</th>
+                                    <th className="px-3 py-2 text-right w-24">수량</th>
+                                    <th className="px-3 py-2 text-right w-28">단가</th>
+                                    <th className="px-3 py-2 text-right w-32">금액</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {groupItemsByCategory(day.items).map(({ categoryName, items }) => (
+                                    <React.Fragment key={categoryName}>
+                                        <tr className="bg-blue-50 border-b border-gray-200">
+                                            <td colSpan={4} className="px-3 py-1 font-semibold text-blue-800">{categoryName}</td>
+                                        </tr>
+                                        {items.map(item => (
+                                            <tr key={item.id} className="border-b border-gray-200">
+                                                <td className="px-3 py-2">
+                                                    <p className="font-medium">{item.product.ProductName}</p>
+                                                    {item.product.ProductDescription && (
+                                                        <p className="text-xs text-gray-500">{item.product.ProductDescription}</p>
+                                                    )}
+                                                </td>
+                                                <td className="px-3 py-2 text-right whitespace-nowrap">
+                                                    {getItemPriceLines(item).map((line, lineIndex) => (
+                                                        <p key={lineIndex}>{line.label ? `${line.label} ${line.quantity}` : line.quantity}</p>
+                                                    ))}
+                                                </td>
+                                                <td className="px-3 py-2 text-right">
+                                                    {getItemPriceLines(item).map((line, lineIndex) => (
+                                                        <p key={lineIndex}>{formatCurrency(line.unitPrice, currency)}</p>
+                                                    ))}
+                                                </td>
+                                                <td className="px-3 py-2 text-right">{formatCurrency(item.total, currency)}</td>
+                                            </tr>
+                                        ))}
+                                    </React.Fragment>
+                                ))}
+                                <tr className="bg-gray-50 font-semibold">
+                                    <td colSpan={3} className="px-3 py-2 text-right">{index + 1}일차 소계</td>
+                                    <td className="px-3 py-2 text-right">{formatCurrency(day.dayTotal, currency)}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            ))}
+
+            <div data-pdf-block className="pb-6">
+                {breakdown.length > 0 && (
+                    <table className="w-full text-sm mb-2">
+                        <tbody>
+                            {breakdown.map((line, index) => (
+                                <tr key={index} className="border-b border-gray-200">
+                                    <td className="px-3 py-2 text-right text-gray-600">{line.label}</td>
+                                    <td className="px-3 py-2 text-right w-40">{formatCurrency(line.amount, currency)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                <div className="flex justify-between items-center bg-blue-600 text-white px-4 py-3">
+                    <span className="text-lg font-bold">총 견적 금액</span>
+                    <span className="text-2xl font-bold">{formatCurrency(grandTotal, currency)}</span>
+                </div>
+                {payment && (
+                    <div className="mt-6">
+                        <h3 className="font-bold mb-2">결제 일정</h3>
+                        <table className="w-full text-sm border border-gray-300">
+                            <tbody>
+                                {getPaymentScheduleLines(info, payment).map((line, index) => (
+                                    <tr key={index} className={index === 0 ? 'border-b border-gray-300' : undefined}>
+                                        <th className="bg-gray-100 px-3 py-2 text-left w-1/2">{line.label}</th>
+                                        <td className="px-3 py-2 text-right">{formatCurrency(line.amount, currency)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                {quote.priceTiers && quote.priceTiers.length > 0 && (
+                    <div className="mt-6">
+                        <h3 className="font-bold mb-2">인원별 1인 요금</h3>
+                        <table className="w-full text-sm border border-gray-300">
+                            <thead>
+                                <tr className="bg-gray-100 border-b border-gray-300">
+                                    <th className="px-3 py-2 text-left">인원</th>
+                                    {PAX_TYPES.map(paxType => <th key={paxType} className="px-3 py-2 text-right">{PAX_TYPE_LABELS[paxType]}</th>)}
+                                    <th className="px-3 py-2 text-right">총액</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {quote.priceTiers.map(tier => (
+                                    <tr key={tier.groupSize} className="border-b border-gray-200">
+                                        <td className="px-3 py-2">{tier.groupSize}명</td>
+                                        {PAX_TYPES.map(paxType => <td key={paxType} className="px-3 py-2 text-right">{formatCurrency(tier.perPerson[paxType], currency)}</td>)}
+                                        <td className="px-3 py-2 text-right">{formatCurrency(tier.total, currency)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                {terms.trim() && (
+                    <div className="mt-6">
+                        <h3 className="font-bold mb-2">약관 및 안내 사항</h3>
+                        <p className="text-xs text-gray-600 whitespace-pre-line leading-relaxed">{terms}</p>
+                    </div>
+                )}
+                <p className="mt-8 text-center text-xs text-gray-400">{COMPANY_NAME} · 본 견적서는 고객님을 위해 작성되었습니다.</p>
+            </div>
+        </div>
+    );
+});
+
+QuoteDocument.displayName = 'QuoteDocument';
+
+export default QuoteDocument;
@@ -0,0 +1,60 @@
+import React, { useRef, useState } from 'react';
+import { Quote } from '../../types';
+import { downloadElementAsPdf } from '../../services/pdfService';
+import { todayDateString } from '../../services/currencyService';
+import QuoteDocument, { DEFAULT_QUOTE_TERMS } from './QuoteDocument';
+import Button from '../ui/Button';
+import Modal from '../ui/Modal';
+
+interface QuoteDocumentModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    quote: Quote;
+    destination?: string;
+    onTermsChange: (terms: string) => void;
+}
+
+const QuoteDocumentModal: React.FC<QuoteDocumentModalProps> = ({ isOpen, onClose, quote, destination, onTermsChange }) => {
+    const documentRef = useRef<HTMLDivElement>(null);
+    const [isGenerating, setIsGenerating] = useState(false);
+
+    const handleDownloadPdf = async () => {
+        if (!documentRef.current) return;
+        setIsGenerating(true);
+        try {
+            const customerName = quote.info.customerName.replace(/\s+/g, '_') || '견적';
+            await downloadElementAsPdf(documentRef.current, `${customerName}_견적서.pdf`);
+        } catch (err) {
+            console.error('PDF 생성 실패:', err);
+            alert(`PDF 생성에 실패했습니다. (오류: ${(err as Error).message})`);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="고객 견적서" size="xl">
+            <div className="space-y-4">
+                <div>
+                    <label htmlFor="quote-terms" className="block text-sm font-medium text-gray-700 mb-1">약관 및 안내 사항</label>
+                    <textarea
+                        id="quote-terms"
+                        rows={4}
+                        className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        value={quote.info.terms ?? DEFAULT_QUOTE_TERMS}
+                        onChange={e => onTermsChange(e.target.value)}
+                    />
+                </div>
+                <div className="flex justify-end gap-2">
+                    <Button variant="secondary" onClick={onClose}>닫기</Button>
+                    <Button onClick={handleDownloadPdf} disabled={isGenerating}>{isGenerating ? 'PDF 생성 중...' : 'PDF 다운로드'}</Button>
+                </div>
+                <div className="border border-gray-200 rounded-md bg-gray-100 p-4 overflow-x-auto">
+                    <QuoteDocument ref={documentRef} quote={quote} destination={destination} issuedDate={todayDateString()} />
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+export default QuoteDocumentModal;
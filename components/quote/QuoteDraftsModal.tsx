@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { QuoteDraft, listDrafts, deleteDraft } from '../../services/draftService';
+import { formatMoney } from '../../services/currencyService';
+import { formatRouteSummary } from '../../services/itineraryService';
+import Button from '../ui/Button';
+import Modal from '../ui/Modal';
+
+interface QuoteDraftsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    currentDraftId: string; // The builder's own draft, which can't be recovered into itself
+    onRecover: (draft: QuoteDraft) => void;
+}
+
+// Drafts autosaved in this browser, newest first
+const QuoteDraftsModal: React.FC<QuoteDraftsModalProps> = ({ isOpen, onClose, currentDraftId, onRecover }) => {
+    const [drafts, setDrafts] = useState<QuoteDraft[]>(listDrafts);
+
+    const handleDelete = (draft: QuoteDraft) => {
+        if (!window.confirm(`'${draft.name}' 초안을 삭제하시겠습니까?`)) return;
+        deleteDraft(draft.id);
+        setDrafts(listDrafts());
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="임시 저장된 초안" size="lg">
+            <p className="text-xs text-gray-500 mb-4">작성 중인 견적은 이 브라우저에 자동으로 임시 저장되며, 견적을 저장하면 해당 초안은 삭제됩니다.</p>
+            {drafts.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4 bg-gray-50 rounded-md">임시 저장된 초안이 없습니다.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {drafts.map(draft => {
+                        const itemCount = draft.quote.days.reduce((sum, day) => sum + day.items.length, 0);
+                        const route = draft.quote.days.some(day => day.cityId) ? formatRouteSummary(draft.quote.days) : '';
+                        const isCurrent = draft.id === currentDraftId;
+                        return (
+                            <li key={draft.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
+                                <div>
+                                    <p className="font-medium">
+                                        {draft.name}
+                                        {draft.quoteId && <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-100 text-blue-800 text-xs font-normal">저장된 견적 수정본</span>}
+                                        {isCurrent && <span className="ml-2 px-1.5 py-0.5 rounded bg-green-100 text-green-800 text-xs font-normal">현재 작성 중</span>}
+                                    </p>
+                                    <p className="text-sm text-gray-500">
+                                        {`${new Date(draft.savedAt).toLocaleString('ko-KR')} · ${draft.quote.days.length}일 · 상품 ${itemCount}개 · ${formatMoney(draft.quote.grandTotal, draft.quote.info.currency)}`}
+                                    </p>
+                                    {route && <p className="text-sm text-gray-600">{route}</p>}
+                                </div>
+                                <div className="space-x-2 flex-shrink-0">
+                                    <Button size="sm" onClick={() => onRecover(draft)} disabled={isCurrent}>복구</Button>
+                                    <Button size="sm" variant="danger" onClick={() => handleDelete(draft)} disabled={isCurrent}>삭제</Button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </Modal>
+    );
+};
+
+export default QuoteDraftsModal;
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import Button from '../ui/Button';
+
+// How many past actions the panel lists.
+const MAX_LISTED_ENTRIES = 15;
+
+interface QuoteHistoryPanelProps {
+    undoLabels: string[]; // Oldest first
+    redoLabels: string[]; // Most recently undone last
+    onUndo: () => void;
+    onRedo: () => void;
+}
+
+// Undo/redo buttons with a collapsible list of recent actions
+const QuoteHistoryPanel: React.FC<QuoteHistoryPanelProps> = ({ undoLabels, redoLabels, onUndo, onRedo }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const recent = undoLabels.slice(-MAX_LISTED_ENTRIES).reverse();
+
+    return (
+        <div className="relative flex items-center gap-1">
+            <Button size="sm" variant="secondary" onClick={onUndo} disabled={undoLabels.length === 0} title="실행 취소 (Ctrl+Z)">↶ 실행 취소</Button>
+            <Button size="sm" variant="secondary" onClick={onRedo} disabled={redoLabels.length === 0} title="다시 실행 (Ctrl+Shift+Z)">↷ 다시 실행</Button>
+            <Button size="sm" variant="secondary" onClick={() => setIsOpen(open => !open)}>기록</Button>
+            {isOpen && (
+                <div className="absolute bottom-full left-0 mb-2 w-80 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg p-3 text-sm z-20">
+                    <p className="font-semibold text-gray-700 mb-2">최근 작업</p>
+                    {undoLabels.length === 0 && redoLabels.length === 0 ? (
+                        <p className="text-gray-500">아직 기록된 작업이 없습니다.</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {redoLabels.map((label, index) => (
+                                <li key={`redo-${index}`} className="text-gray-400 line-through" title="실행 취소됨 (다시 실행 가능)">{label}</li>
+                            ))}
+                            {recent.map((label, index) => (
+                                <li key={`undo-${index}`} className={index === 0 ? 'font-semibold text-gray-800' : 'text-gray-600'}>{label}</li>
+                            ))}
+                            {undoLabels.length > MAX_LISTED_ENTRIES && (
+                                <li className="text-xs text-gray-400">외 {undoLabels.length - MAX_LISTED_ENTRIES}개</li>
+                            )}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default QuoteHistoryPanel;
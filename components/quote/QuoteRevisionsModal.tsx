@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { CurrencyCode, QuoteItem, QuoteRevision } from '../../types';
+import { loadQuoteRevisions } from '../../services/quoteService';
+import { BASE_CURRENCY, formatMoney } from '../../services/currencyService';
+import { diffQuotes, QuoteDayDiff, PaxField } from '../../services/quoteDiffService';
+import { formatItemBreakdown, getItemPriceLines } from '../../services/quoteItemService';
+import Button from '../ui/Button';
+import Modal from '../ui/Modal';
+
+const formatCurrency = (amount: number, currency?: CurrencyCode): string => {
+    return formatMoney(amount, currency);
+}
+
+const formatDelta = (delta: number, currency?: CurrencyCode): string => {
+    if (delta === 0) return '변동 없음';
+    return `${delta > 0 ? '+' : '-'}${formatCurrency(Math.abs(delta), currency)}`;
+}
+
+const deltaClasses = (delta: number) =>
+    delta > 0 ? 'text-red-600' : delta < 0 ? 'text-green-600' : 'text-gray-500';
+
+const paxLabels: Record<PaxField, string> = {
+    adults: '성인',
+    children: '아동',
+    infants: '유아',
+};
+
+const dayStatusLabels: Record<QuoteDayDiff['status'], { label: string; classes: string }> = {
+    added: { label: '추가됨', classes: 'bg-green-100 text-green-800' },
+    removed: { label: '삭제됨', classes: 'bg-red-100 text-red-800' },
+    changed: { label: '변경됨', classes: 'bg-yellow-100 text-yellow-800' },
+    unchanged: { label: '변경 없음', classes: 'bg-gray-100 text-gray-600' },
+};
+
+const itemSummary = (item: QuoteItem, currency?: CurrencyCode) =>
+    `${formatItemBreakdown(item, amount => formatCurrency(amount, currency))} = ${formatCurrency(item.total, currency)}`;
+
+interface QuoteRevisionsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    quoteId: string;
+    onRestore?: (revision: QuoteRevision) => Promise<void>; // Omitted for read-only users
+}
+
+const QuoteRevisionsModal: React.FC<QuoteRevisionsModalProps> = ({ isOpen, onClose, quoteId, onRestore }) => {
+    const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [baseId, setBaseId] = useState<string>('');
+    const [compareId, setCompareId] = useState<string>('');
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+
+    useEffect(() => {
+        setIsLoading(true);
+        setError(null);
+        loadQuoteRevisions(quoteId)
+            .then(loaded => {
+                setRevisions(loaded);
+                // Revisions are newest first: compare the latest against the one before it.
+                setCompareId(loaded[0]?.id || '');
+                setBaseId(loaded[1]?.id || loaded[0]?.id || '');
+            })
+            .catch(err => {
+                console.error("Failed to load quote revisions:", err);
+                setError("버전 기록을 불러오는 데 실패했습니다.");
+            })
+            .finally(() => setIsLoading(false));
+    }, [quoteId]);
+
+    const baseRevision = revisions.find(r => r.id === baseId);
+    const compareRevision = revisions.find(r => r.id === compareId);
+
+    const baseCurrency = baseRevision?.info.currency || BASE_CURRENCY;
+    const compareCurrency = compareRevision?.info.currency || BASE_CURRENCY;
+
+    const diff = useMemo(() => {
+        if (!baseRevision || !compareRevision) return null;
+        return diffQuotes(baseRevision, compareRevision);
+    }, [baseRevision, compareRevision]);
+
+    const handleRestore = async (revision: QuoteRevision) => {
+        if (!onRestore) return;
+        if (!window.confirm(`v${revision.Version}을(를) 현재 견적으로 복원하시겠습니까? 복원된 내용은 새 버전으로 저장됩니다.`)) return;
+        setRestoringId(revision.id);
+        try {
+            await onRestore(revision);
+            onClose();
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const renderDayDiff = (dayDiff: QuoteDayDiff) => {
+        const status = dayStatusLabels[dayDiff.status];
+        const dayLabel = dayDiff.afterDayNumber !== undefined && dayDiff.beforeDayNumber !== undefined && dayDiff.afterDayNumber !== dayDiff.beforeDayNumber
+            ? `${dayDiff.beforeDayNumber}일차 → ${dayDiff.afterDayNumber}일차`
+            : `${dayDiff.afterDayNumber ?? dayDiff.beforeDayNumber}일차`;
+        const dayDelta = dayDiff.dayTotalAfter - dayDiff.dayTotalBefore;
+
+        return (
+            <div key={dayDiff.dayId} className="border border-gray-200 rounded-md">
+                <div className="flex justify-between items-center px-3 py-2 bg-gray-50 rounded-t-md">
+                    <div className="flex items-center gap-2">
+                        <span className="font-bold">{dayLabel}</span>
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${status.classes}`}>{status.label}</span>
+                    </div>
+                    <div className="text-sm">
+                        {formatCurrency(dayDiff.dayTotalBefore, baseCurrency)} → {formatCurrency(dayDiff.dayTotalAfter, compareCurrency)}
+                        <span className={`ml-2 font-semibold ${deltaClasses(dayDelta)}`}>({formatDelta(dayDelta, compareCurrency)})</span>
+                    </div>
+                </div>
+                {(dayDiff.removedItems.length > 0 || dayDiff.addedItems.length > 0 || dayDiff.changedItems.length > 0) && (
+                    <table className="min-w-full text-sm">
+                        <tbody className="divide-y divide-gray-100">
+                            {dayDiff.removedItems.map(item => (
+                                <tr key={item.id} className="bg-red-50">
+                                    <td className="px-3 py-1.5 w-1/2 line-through text-red-700">{item.product.ProductName} · {itemSummary(item, baseCurrency)}</td>
+                                    <td className="px-3 py-1.5 w-1/2 text-gray-400">(삭제됨)</td>
+                                </tr>
+                            ))}
+                            {dayDiff.addedItems.map(item => (
+                                <tr key={item.id} className="bg-green-50">
+                                    <td className="px-3 py-1.5 w-1/2 text-gray-400">(없음)</td>
+                                    <td className="px-3 py-1.5 w-1/2 text-green-700">{item.product.ProductName} · {itemSummary(item, compareCurrency)}</td>
+                                </tr>
+                            ))}
+                            {dayDiff.changedItems.map(change => (
+                                <tr key={change.after.id} className="bg-yellow-50">
+                                    <td className="px-3 py-1.5 w-1/2">{change.before.product.ProductName} · {itemSummary(change.before, baseCurrency)}</td>
+                                    <td className="px-3 py-1.5 w-1/2">
+                                        {change.after.product.ProductName} ·{' '}
+                                        {getItemPriceLines(change.after).map((line, lineIndex) => (
+                                            <React.Fragment key={lineIndex}>
+                                                {lineIndex > 0 && ' + '}
+                                                {line.label && `${line.label} `}
+                                                <span className={change.quantityChanged ? 'font-semibold text-yellow-800' : ''}>{line.quantity}</span>
+                                                {' × '}
+                                                <span className={change.appliedPriceChanged ? 'font-semibold text-yellow-800' : ''}>{formatCurrency(line.unitPrice, compareCurrency)}</span>
+                                            </React.Fragment>
+                                        ))}
+                                        {` = ${formatCurrency(change.after.total, compareCurrency)}`}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+                {dayDiff.unchangedItems.length > 0 && (
+                    <p className="px-3 py-1.5 text-xs text-gray-500">변경 없는 상품 {dayDiff.unchangedItems.length}개</p>
+                )}
+            </div>
+        );
+    };
+
+    const grandDelta = diff ? diff.grandTotalAfter - diff.grandTotalBefore : 0;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="버전 기록" size="xl">
+            {isLoading ? (
+                <p className="text-center text-gray-500">버전 기록 로딩 중...</p>
+            ) : error ? (
+                <p className="text-center text-red-500">{error}</p>
+            ) : revisions.length === 0 ? (
+                <p className="text-center text-gray-500">저장된 버전이 없습니다.</p>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                    <div>
+                        <h4 className="font-bold text-gray-700 mb-2">버전 목록</h4>
+                        <div className="grid grid-cols-12 text-xs text-gray-500 px-2 mb-1">
+                            <span className="col-span-2 text-center">기준</span>
+                            <span className="col-span-2 text-center">비교</span>
+                        </div>
+                        <ul className="space-y-2">
+                            {revisions.map(revision => (
+                                <li key={revision.id} className="grid grid-cols-12 gap-1 items-center p-2 bg-gray-50 rounded-md">
+                                    <input type="radio" name="base-revision" className="col-span-2" checked={baseId === revision.id} onChange={() => setBaseId(revision.id)} />
+                                    <input type="radio" name="compare-revision" className="col-span-2" checked={compareId === revision.id} onChange={() => setCompareId(revision.id)} />
+                                    <div className="col-span-5">
+                                        <p className="font-medium">v{revision.Version}</p>
+                                        <p className="text-xs text-gray-500">
+                                            {revision.CreatedAt ? revision.CreatedAt.toDate().toLocaleString('ko-KR') : 'N/A'}
+                                        </p>
+                                        <p className="text-xs text-gray-600">{formatCurrency(revision.grandTotal, revision.info.currency)}</p>
+                                    </div>
+                                    <div className="col-span-3 text-right">
+                                        {onRestore && (
+                                            <Button
+                                                size="sm"
+                                                variant="secondary"
+                                                onClick={() => handleRestore(revision)}
+                                                disabled={restoringId !== null || revision.id === revisions[0].id}
+                                            >
+                                                {restoringId === revision.id ? '복원 중...' : '복원'}
+                                            </Button>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+
+                    <div className="lg:col-span-2 space-y-4">
+                        {diff && baseRevision && compareRevision && (
+                            <>
+                                <div className="grid grid-cols-2 gap-2 text-center font-bold text-gray-700">
+                                    <div className="bg-gray-100 rounded-md py-1">v{baseRevision.Version}</div>
+                                    <div className="bg-gray-100 rounded-md py-1">v{compareRevision.Version}</div>
+                                </div>
+                                {baseCurrency !== compareCurrency && (
+                                    <div className="p-3 bg-yellow-50 rounded-md text-sm">
+                                        <span className="font-semibold">견적 통화 변경: </span>{baseCurrency} → {compareCurrency} (금액 차이는 통화 변경을 포함합니다)
+                                    </div>
+                                )}
+                                {diff.paxChanges.length > 0 && (
+                                    <div className="p-3 bg-yellow-50 rounded-md text-sm">
+                                        <span className="font-semibold">인원 변경: </span>
+                                        {diff.paxChanges.map(change => `${paxLabels[change.field]} ${change.before} → ${change.after}`).join(', ')}
+                                    </div>
+                                )}
+                                <div className="space-y-3">
+                                    {diff.days.map(renderDayDiff)}
+                                </div>
+                                <div className="text-right font-bold text-lg">
+                                    총 합계: {formatCurrency(diff.grandTotalBefore, baseCurrency)} → {formatCurrency(diff.grandTotalAfter, compareCurrency)}
+                                    <span className={`ml-2 ${deltaClasses(grandDelta)}`}>({formatDelta(grandDelta, compareCurrency)})</span>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+export default QuoteRevisionsModal;
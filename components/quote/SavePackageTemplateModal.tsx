@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { QuoteDay } from '../../types';
+import { savePackageTemplate } from '../../services/packageTemplateService';
+import { formatDayHeading } from '../../services/itineraryService';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Modal from '../ui/Modal';
+
+interface SavePackageTemplateModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    days: QuoteDay[];
+    departureDate?: string;
+}
+
+// Saves some or all days of the current quote as a reusable package template
+const SavePackageTemplateModal: React.FC<SavePackageTemplateModalProps> = ({ isOpen, onClose, days, departureDate }) => {
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [selectedDayIds, setSelectedDayIds] = useState<Set<string>>(() => new Set(days.map(d => d.id)));
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const toggleDay = (dayId: string) => {
+        setSelectedDayIds(current => {
+            const next = new Set(current);
+            if (next.has(dayId)) next.delete(dayId); else next.add(dayId);
+            return next;
+        });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const selectedDays = days.filter(day => selectedDayIds.has(day.id));
+        if (!name.trim()) return;
+        if (selectedDays.length === 0) {
+            setError('저장할 일차를 선택하세요.');
+            return;
+        }
+
+        setIsSaving(true);
+        setError(null);
+        try {
+            await savePackageTemplate(name, description, selectedDays);
+            alert(`"${name.trim()}" 패키지가 저장되었습니다.`);
+            onClose();
+        } catch (err) {
+            console.error("Failed to save package template:", err);
+            setError(`패키지 저장에 실패했습니다. (오류: ${(err as Error).message})`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="패키지로 저장">
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <Input label="패키지명" id="new-template-name" placeholder="예: 오사카 3일 클래식" value={name} onChange={e => setName(e.target.value)} required />
+                <Input label="설명" id="new-template-description" value={description} onChange={e => setDescription(e.target.value)} />
+                <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700">포함할 일차</p>
+                    {days.map((day, index) => (
+                        <label key={day.id} className="flex items-center gap-2 text-sm">
+                            <input type="checkbox" checked={selectedDayIds.has(day.id)} onChange={() => toggleDay(day.id)} />
+                            {formatDayHeading(departureDate, day, index)}
+                            <span className="text-gray-500">(상품 {day.items.length}개)</span>
+                        </label>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-500">도시와 상품만 저장되며, 가격은 견적에 넣을 때 현재 상품 가격으로 다시 계산됩니다.</p>
+                {error && <p className="text-red-500 text-sm">{error}</p>}
+                <div className="flex justify-end gap-2 pt-2">
+                    <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>취소</Button>
+                    <Button type="submit" disabled={isSaving}>{isSaving ? '저장 중...' : '저장'}</Button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+export default SavePackageTemplateModal;
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { SavedQuote } from '../../types';
+import { loadQuote } from '../../services/quoteService';
+import { shareQuote, stopSharingQuote, CUSTOMER_RESPONSE_LABELS } from '../../services/shareService';
+import { formatRoute } from '../../services/routeService';
+import Button from '../ui/Button';
+import Modal from '../ui/Modal';
+
+const getShareUrl = (token: string): string =>
+    `${window.location.origin}${window.location.pathname}${formatRoute({ page: 'share', token })}`;
+
+interface ShareQuoteModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    quoteId: string;
+    hasUnsavedChanges: boolean;
+}
+
+// Creates and manages the customer link of a saved quote, and shows the customer's answer.
+const ShareQuoteModal: React.FC<ShareQuoteModalProps> = ({ isOpen, onClose, quoteId, hasUnsavedChanges }) => {
+    const [quote, setQuote] = useState<SavedQuote | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = () => loadQuote(quoteId).then(setQuote);
+
+    useEffect(() => {
+        setIsLoading(true);
+        setError(null);
+        refresh()
+            .catch(err => {
+                console.error("Failed to load quote:", err);
+                setError('견적을 불러오는 데 실패했습니다.');
+            })
+            .finally(() => setIsLoading(false));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [quoteId]);
+
+    const runAction = async (action: () => Promise<unknown>, failureMessage: string) => {
+        setIsProcessing(true);
+        setError(null);
+        try {
+            await action();
+            await refresh();
+        } catch (err) {
+            console.error(failureMessage, err);
+            setError(`${failureMessage} (오류: ${(err as Error).message})`);
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const handleShare = () => runAction(() => shareQuote(quoteId), '공유 링크를 만들지 못했습니다.');
+
+    const handleStopSharing = (token: string) => {
+        if (!window.confirm('공유 링크를 중지하시겠습니까? 고객은 더 이상 견적을 볼 수 없습니다.')) return;
+        runAction(() => stopSharingQuote(quoteId, token), '공유를 중지하지 못했습니다.');
+    };
+
+    const handleCopyLink = (token: string) => {
+        navigator.clipboard.writeText(getShareUrl(token))
+            .then(() => alert('공유 링크가 클립보드에 복사되었습니다.'))
+            .catch(err => {
+                console.error('클립보드 복사 실패:', err);
+                alert('클립보드 복사에 실패했습니다.');
+            });
+    };
+
+    const response = quote?.CustomerResponse;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="고객 공유" size="lg">
+            {isLoading ? <p className="text-center text-gray-500">로딩 중...</p> : !quote ? (
+                <p className="text-center text-red-500">{error || '견적을 찾을 수 없습니다.'}</p>
+            ) : (
+                <div className="space-y-4">
+                    <p className="text-xs text-gray-500">
+                        링크를 받은 고객은 로그인 없이 마지막으로 저장된 견적을 볼 수 있습니다. 원가, 마크업, 환율 등 내부 정보는 표시되지 않습니다.
+                    </p>
+                    {hasUnsavedChanges && (
+                        <p className="text-sm text-amber-800 bg-amber-50 rounded-md px-3 py-2">저장하지 않은 변경 사항은 공유되지 않습니다. 먼저 견적을 저장하세요.</p>
+                    )}
+                    {quote.ShareToken ? (
+                        <div className="space-y-2">
+                            <div className="flex gap-2">
+                                <input
+                                    readOnly
+                                    aria-label="공유 링크"
+                                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm bg-gray-50"
+                                    value={getShareUrl(quote.ShareToken)}
+                                    onFocus={e => e.target.select()}
+                                />
+                                <Button variant="secondary" onClick={() => handleCopyLink(quote.ShareToken!)}>복사</Button>
+                            </div>
+                            <div className="flex justify-end gap-2">
+                                <Button size="sm" variant="secondary" onClick={handleShare} disabled={isProcessing}>
+                                    {`최신 저장본(v${quote.CurrentVersion || 1})으로 업데이트`}
+                                </Button>
+                                <Button size="sm" variant="danger" onClick={() => handleStopSharing(quote.ShareToken!)} disabled={isProcessing}>공유 중지</Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <Button onClick={handleShare} disabled={isProcessing}>{isProcessing ? '만드는 중...' : '공유 링크 만들기'}</Button>
+                    )}
+                    {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                    <div className="border-t pt-4">
+                        <h3 className="font-semibold mb-2">고객 응답</h3>
+                        {response ? (
+                            <div className={`p-3 rounded-md text-sm ${response.Status === 'accepted' ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'}`}>
+                                <p className="font-semibold">
+                                    {`${CUSTOMER_RESPONSE_LABELS[response.Status]} · v${response.Version}`}
+                                    {response.RespondedAt && ` · ${response.RespondedAt.toDate().toLocaleString('ko-KR')}`}
+                                </p>
+                                {response.Message && <p className="mt-1 whitespace-pre-line">{response.Message}</p>}
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-500">아직 응답이 없습니다.</p>
+                        )}
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
+
+export default ShareQuoteModal;
@@ -1,7 +1,8 @@
 
 // Import the functions you need from the SDKs you need
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
 // import { getAnalytics } from "firebase/analytics"; // (Optional)
 
 // Your web app's Firebase configuration
@@ -21,4 +22,14 @@ const app = initializeApp(firebaseConfig);
 // Firestore DB instance
 // This 'db' variable will be used throughout the app to communicate with Firestore.
 export const db = getFirestore(app);
+
+// Auth instance used for sign-in; user roles live in the 'Users' collection.
+export const auth = getAuth(app);
+
+// Set USE_FIREBASE_EMULATORS=true in .env.local to run against `firebase emulators:start`
+// instead of the production project.
+if (process.env.USE_FIREBASE_EMULATORS === 'true') {
+  connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+  connectFirestoreEmulator(db, "127.0.0.1", 8080);
+}
 // const analytics = getAnalytics(app); // (Optional)
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { onAuthStateChanged, User } from 'firebase/auth';
+import { doc, onSnapshot } from 'firebase/firestore';
+import { auth, db } from '../firebase';
+import { UserProfile } from '../types';
+
+// Tracks the signed-in Firebase user and their 'Users' profile (which holds the role).
+export function useAuth() {
+  const [user, setUser] = useState<User | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let unsubscribeProfile: (() => void) | null = null;
+
+    const unsubscribeAuth = onAuthStateChanged(auth, (firebaseUser) => {
+      unsubscribeProfile?.();
+      unsubscribeProfile = null;
+      setUser(firebaseUser);
+
+      if (!firebaseUser) {
+        setProfile(null);
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      unsubscribeProfile = onSnapshot(doc(db, 'Users', firebaseUser.uid), (snapshot) => {
+        setProfile(snapshot.exists() ? ({ id: snapshot.id, ...snapshot.data() } as UserProfile) : null);
+        setLoading(false);
+      }, (err) => {
+        console.error(err);
+        setProfile(null);
+        setLoading(false);
+      });
+    });
+
+    return () => {
+      unsubscribeProfile?.();
+      unsubscribeAuth();
+    };
+  }, []);
+
+  return { user, profile, loading };
+}
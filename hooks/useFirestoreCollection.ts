@@ -4,7 +4,8 @@ import { collection, onSnapshot, query, Query, DocumentData } from 'firebase/fir
 import { db } from '../firebase';
 import { FirestoreDocument } from '../types';
 
-export function useFirestoreCollection<T extends FirestoreDocument>(collectionName: string, firestoreQuery?: Query<DocumentData>) {
+// Soft-deleted (trashed) documents are skipped unless `includeDeleted` is set.
+export function useFirestoreCollection<T extends FirestoreDocument>(collectionName: string, firestoreQuery?: Query<DocumentData>, includeDeleted = false) {
   const [data, setData] = useState<T[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
@@ -16,6 +17,7 @@ export function useFirestoreCollection<T extends FirestoreDocument>(collectionNa
     const unsubscribe = onSnapshot(q, (querySnapshot) => {
       const items: T[] = [];
       querySnapshot.forEach((doc) => {
+        if (!includeDeleted && doc.data().DeletedAt) return;
         items.push({ id: doc.id, ...doc.data() } as T);
       });
       setData(items);
@@ -28,7 +30,7 @@ export function useFirestoreCollection<T extends FirestoreDocument>(collectionNa
 
     return () => unsubscribe();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [collectionName, firestoreQuery]);
+  }, [collectionName, firestoreQuery, includeDeleted]);
 
   return { data, loading, error };
 }
@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AppRoute, parseRoute, formatRoute } from '../services/routeService';
+
+// The route in the location hash. `navigate` adds a browser history entry unless `replace`
+// is set, so the back button returns to the previous page, tab or quote.
+export function useRoute() {
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback((next: AppRoute, options: { replace?: boolean } = {}) => {
+    const hash = formatRoute(next);
+    if (hash === window.location.hash) return;
+    if (options.replace) {
+      // replaceState doesn't fire hashchange, so the state is updated here.
+      window.history.replaceState(null, '', hash);
+      setRoute(parseRoute(hash));
+    } else {
+      window.location.hash = hash;
+    }
+  }, []);
+
+  return { route, navigate };
+}
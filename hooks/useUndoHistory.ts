@@ -0,0 +1,73 @@
+import { useState, useRef, useCallback } from 'react';
+
+export interface HistoryEntry<T> {
+  label: string;
+  snapshot: T; // State before the change (undo stack) or after it (redo stack)
+  coalesceKey?: string;
+  recordedAt: number;
+}
+
+// Edits with the same key inside this window become one step, so typing "120" into a
+// number input is undone in one go rather than digit by digit.
+const COALESCE_WINDOW_MS = 1000;
+const MAX_ENTRIES = 100;
+
+/**
+ * Snapshot-based undo/redo. Call `record` right before a change, while `getCurrent` still
+ * returns the state before it; `restore` puts a snapshot back.
+ */
+export function useUndoHistory<T>(getCurrent: () => T, restore: (snapshot: T) => void) {
+  const undoStackRef = useRef<HistoryEntry<T>[]>([]);
+  const redoStackRef = useRef<HistoryEntry<T>[]>([]);
+  // The stacks live in refs so keyboard handlers always see the latest ones; this
+  // counter re-renders the history panel when they change.
+  const [, setVersion] = useState(0);
+  const getCurrentRef = useRef(getCurrent);
+  const restoreRef = useRef(restore);
+  getCurrentRef.current = getCurrent;
+  restoreRef.current = restore;
+
+  const update = (undoStack: HistoryEntry<T>[], redoStack: HistoryEntry<T>[]) => {
+    undoStackRef.current = undoStack.slice(-MAX_ENTRIES);
+    redoStackRef.current = redoStack;
+    setVersion(v => v + 1);
+  };
+
+  const record = useCallback((label: string, coalesceKey?: string) => {
+    const now = Date.now();
+    const undoStack = undoStackRef.current;
+    const last = undoStack[undoStack.length - 1];
+    if (coalesceKey && last?.coalesceKey === coalesceKey && now - last.recordedAt < COALESCE_WINDOW_MS) {
+      update([...undoStack.slice(0, -1), { ...last, recordedAt: now }], []);
+      return;
+    }
+    update([...undoStack, { label, snapshot: getCurrentRef.current(), coalesceKey, recordedAt: now }], []);
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!entry) return;
+    const redoEntry = { label: entry.label, snapshot: getCurrentRef.current(), recordedAt: Date.now() };
+    update(undoStackRef.current.slice(0, -1), [...redoStackRef.current, redoEntry]);
+    restoreRef.current(entry.snapshot);
+  }, []);
+
+  const redo = useCallback(() => {
+    const entry = redoStackRef.current[redoStackRef.current.length - 1];
+    if (!entry) return;
+    const undoEntry = { label: entry.label, snapshot: getCurrentRef.current(), recordedAt: Date.now() };
+    update([...undoStackRef.current, undoEntry], redoStackRef.current.slice(0, -1));
+    restoreRef.current(entry.snapshot);
+  }, []);
+
+  const clear = useCallback(() => update([], []), []);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    undoEntries: undoStackRef.current,
+    redoEntries: redoStackRef.current,
+  };
+}
@@ -1,35 +1,68 @@
 import React, { useState, useMemo } from 'react';
 import { db } from '../firebase';
-import { collection, doc, addDoc, updateDoc, deleteDoc, getDocs, query, where, writeBatch, serverTimestamp } from 'firebase/firestore';
+import { doc, deleteField, serverTimestamp } from 'firebase/firestore';
 import { useFirestoreCollection } from '../hooks/useFirestoreCollection';
-import { Country, City, Category, Product, PricingType } from '../types';
+import { Country, City, Category, Product, ProductPricePeriod, PricingType, CurrencyCode, UserRole } from '../types';
+import { CURRENCIES, BASE_CURRENCY, formatMoney } from '../services/currencyService';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
 import Modal from '../components/ui/Modal';
+import ManageExchangeRates from '../components/admin/ManageExchangeRates';
+import ManagePackageTemplates from '../components/admin/ManagePackageTemplates';
+import ProductImportModal from '../components/admin/ProductImportModal';
+import CatalogBackup from '../components/admin/CatalogBackup';
+import ManageUsers from '../components/admin/ManageUsers';
+import { hasRole, confirmPassword, getAuthErrorMessage } from '../services/authService';
+import { createDocWithAudit, updateDocWithAudit } from '../services/auditService';
+import { moveToTrash } from '../services/trashService';
+import AuditLogViewer from '../components/admin/AuditLogViewer';
+import ManageTrash from '../components/admin/ManageTrash';
+import DeleteImpactModal, { DeleteTarget } from '../components/admin/DeleteImpactModal';
+import PricePeriodEditor, { validatePricePeriods, normalizePricePeriods } from '../components/admin/PricePeriodEditor';
+import { AdminTab, AdminRoute, ProductFilters, adminRoute } from '../services/routeService';
+
+const formatCurrency = (amount: number, currency?: CurrencyCode): string => {
+    return formatMoney(amount, currency);
+}
 
-type CollectionType = 'Products' | 'Categories' | 'Cities' | 'Countries';
-
-const formatCurrency = (amount: number): string => {
-    return `₩${Math.round(amount).toLocaleString('ko-KR')}`;
+interface AdminPageProps {
+  role: UserRole;
+  currentUserId: string;
+  route: AdminRoute; // Active tab and product filters, kept in the URL
+  onRouteChange: (route: AdminRoute) => void;
 }
 
-const AdminPage: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<CollectionType>('Products');
+const AdminPage: React.FC<AdminPageProps> = ({ role, currentUserId, route, onRouteChange }) => {
+  // Catalog admins can add and edit; deletes, restores and user management are owner-only.
+  const canDelete = hasRole(role, 'owner');
   
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [deletePassword, setDeletePassword] = useState('');
   const [deletePasswordError, setDeletePasswordError] = useState('');
   const [onConfirmDelete, setOnConfirmDelete] = useState<(() => Promise<void>) | null>(null);
+  const [isConfirming, setIsConfirming] = useState(false);
 
-  const tabs: { key: CollectionType; name: string }[] = [
+  const tabs: { key: AdminTab; name: string }[] = [
     { key: 'Products', name: '상품' },
     { key: 'Categories', name: '카테고리' },
     { key: 'Cities', name: '도시' },
     { key: 'Countries', name: '국가' },
+    { key: 'ExchangeRates', name: '환율' },
+    { key: 'PackageTemplates', name: '패키지' },
+    { key: 'Backup', name: '백업/복원' },
+    { key: 'Trash', name: '휴지통' },
+    { key: 'AuditLogs', name: '변경 기록' },
+    ...(canDelete ? [{ key: 'Users' as AdminTab, name: '사용자' }] : []),
   ];
+  // A link to a tab this user can't see opens the products tab instead.
+  const activeTab = tabs.some(tab => tab.key === route.tab) ? route.tab : 'Products';
   
   const requestDelete = (deleteFn: () => Promise<void>) => {
+    if (!canDelete) {
+      alert('삭제 권한이 없습니다. 소유자에게 요청하세요.');
+      return;
+    }
     setDeletePassword('');
     setDeletePasswordError('');
     setOnConfirmDelete(() => deleteFn);
@@ -44,19 +77,26 @@ const AdminPage: React.FC = () => {
   const handleConfirmDelete = async (e: React.FormEvent) => {
     e.preventDefault();
     setDeletePasswordError('');
-    if (deletePassword === '1234') {
-        if (onConfirmDelete) {
-            await onConfirmDelete();
-        }
-        handleCancelDelete();
-    } else {
-        setDeletePasswordError('비밀번호가 틀렸습니다.');
-        setDeletePassword('');
+    setIsConfirming(true);
+    try {
+      await confirmPassword(deletePassword);
+    } catch (err) {
+      setDeletePasswordError(getAuthErrorMessage(err));
+      setDeletePassword('');
+      setIsConfirming(false);
+      return;
+    }
+    setIsConfirming(false);
+    // Close the prompt first; long-running actions show their own progress.
+    const confirmedFn = onConfirmDelete;
+    handleCancelDelete();
+    if (confirmedFn) {
+        await confirmedFn();
     }
   };
 
 
-  const tabButtonClasses = (tabKey: CollectionType) =>
+  const tabButtonClasses = (tabKey: AdminTab) =>
     `px-4 py-2 text-sm font-medium rounded-t-lg border-b-2 ${
       activeTab === tabKey
         ? 'border-blue-500 text-blue-600'
@@ -64,12 +104,24 @@ const AdminPage: React.FC = () => {
     }`;
 
   const renderContent = () => {
-    const props = { requestDelete };
+    const props = { requestDelete, canDelete };
     switch (activeTab) {
       case 'Countries': return <ManageCountries {...props} />;
       case 'Cities': return <ManageCities {...props} />;
       case 'Categories': return <ManageCategories {...props} />;
-      case 'Products': return <ManageProducts {...props} />;
+      case 'Products': return (
+        <ManageProducts
+          {...props}
+          filters={route.productFilters}
+          onFiltersChange={filters => onRouteChange(adminRoute('Products', filters))}
+        />
+      );
+      case 'ExchangeRates': return <ManageExchangeRates {...props} />;
+      case 'PackageTemplates': return <ManagePackageTemplates {...props} />;
+      case 'Backup': return <CatalogBackup {...props} />;
+      case 'Trash': return <ManageTrash {...props} />;
+      case 'AuditLogs': return <AuditLogViewer />;
+      case 'Users': return canDelete ? <ManageUsers currentUserId={currentUserId} /> : null;
       default: return null;
     }
   };
@@ -80,7 +132,7 @@ const AdminPage: React.FC = () => {
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-6">
           {tabs.map(tab => (
-            <button key={tab.key} onClick={() => setActiveTab(tab.key)} className={tabButtonClasses(tab.key)}>
+            <button key={tab.key} onClick={() => onRouteChange(adminRoute(tab.key))} className={tabButtonClasses(tab.key)}>
               {tab.name}
             </button>
           ))}
@@ -96,7 +148,7 @@ const AdminPage: React.FC = () => {
         title="삭제 확인"
       >
         <form onSubmit={handleConfirmDelete} className="space-y-4">
-          <p>이 항목을 영구적으로 삭제하려면 관리자 비밀번호를 입력하세요.</p>
+          <p>계속하려면 본인 계정의 비밀번호를 다시 입력하세요.</p>
           <Input
             label="비밀번호"
             id="delete-password"
@@ -110,8 +162,8 @@ const AdminPage: React.FC = () => {
             <Button type="button" variant="secondary" onClick={handleCancelDelete}>
               취소
             </Button>
-            <Button type="submit" variant="danger">
-              삭제 실행
+            <Button type="submit" variant="danger" disabled={isConfirming}>
+              {isConfirming ? '확인 중...' : '삭제 실행'}
             </Button>
           </div>
         </form>
@@ -122,15 +174,16 @@ const AdminPage: React.FC = () => {
 
 interface ManageProps {
     requestDelete: (deleteFn: () => Promise<void>) => void;
+    canDelete: boolean;
 }
 
 // Component to Manage Countries
-const ManageCountries: React.FC<ManageProps> = ({ requestDelete }) => {
+const ManageCountries: React.FC<ManageProps> = ({ requestDelete, canDelete }) => {
   const { data: countries, loading } = useFirestoreCollection<Country>('Countries');
   const [name, setName] = useState('');
   const [editing, setEditing] = useState<Country | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
   const [submitError, setSubmitError] = useState<string | null>(null);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -141,9 +194,9 @@ const ManageCountries: React.FC<ManageProps> = ({ requestDelete }) => {
     setSubmitError(null);
     try {
         if (editing) {
-          await updateDoc(doc(db, 'Countries', editing.id), { CountryName: name });
+          await updateDocWithAudit('Countries', editing.id, { CountryName: name }, editing, name);
         } else {
-          await addDoc(collection(db, 'Countries'), { CountryName: name });
+          await createDocWithAudit('Countries', { CountryName: name }, name);
         }
         setName('');
         setEditing(null);
@@ -156,63 +209,31 @@ const ManageCountries: React.FC<ManageProps> = ({ requestDelete }) => {
   };
   
   const handleDelete = (id: string) => {
-    requestDelete(async () => {
-        setProcessingId(id);
-        setSubmitError(null);
-        try {
-            const batch = writeBatch(db);
-            const citiesQuery = query(collection(db, "Cities"), where("CountryRef", "==", doc(db, 'Countries', id)));
-            const citiesSnapshot = await getDocs(citiesQuery);
-            const cityIds = citiesSnapshot.docs.map(d => d.id);
-            
-            if (cityIds.length > 0) {
-                const CHUNK_SIZE = 30;
-                for (let i = 0; i < cityIds.length; i += CHUNK_SIZE) {
-                    const chunk = cityIds.slice(i, i + CHUNK_SIZE);
-                    const productsQuery = query(
-                        collection(db, "Products"), 
-                        where("CityRef", "in", chunk.map(cityId => doc(db, 'Cities', cityId)))
-                    );
-                    const productsSnapshot = await getDocs(productsQuery);
-                    productsSnapshot.forEach(productDoc => batch.delete(productDoc.ref));
-                }
-            }
-
-            citiesSnapshot.forEach(cityDoc => batch.delete(cityDoc.ref));
-            batch.delete(doc(db, 'Countries', id));
-            await batch.commit();
-        } catch (error) {
-            console.error("Error deleting country:", error);
-            alert(`국가 삭제에 실패했습니다. (오류: ${(error as Error).message})`);
-        } finally {
-            setProcessingId(null);
-        }
-    });
+    const country = countries.find(c => c.id === id);
+    if (!country) return;
+    setDeleteTarget({ collection: 'Countries', id, name: country.CountryName, before: country });
   }
 
-  const isBusy = isSubmitting || processingId !== null;
-
   return (
     <div>
       <form onSubmit={handleSubmit} className="flex gap-4 mb-4">
         <Input label={editing ? '국가 수정' : '새 국가'} id="country" value={name} onChange={e => setName(e.target.value)} placeholder="예: 일본" />
         <div className="self-end flex gap-2">
-            <Button type="submit" disabled={isBusy}>{isSubmitting ? '저장 중...' : (editing ? '업데이트' : '추가')}</Button>
-            {editing && <Button variant="secondary" onClick={() => { setEditing(null); setName(''); }} disabled={isBusy}>취소</Button>}
+            <Button type="submit" disabled={isSubmitting}>{isSubmitting ? '저장 중...' : (editing ? '업데이트' : '추가')}</Button>
+            {editing && <Button variant="secondary" onClick={() => { setEditing(null); setName(''); }} disabled={isSubmitting}>취소</Button>}
         </div>
       </form>
       {submitError && <p className="text-red-500 my-2">{submitError}</p>}
       {loading ? <p>로딩 중...</p> : (
         <ul className="space-y-2">
           {countries.map(c => {
-            const isCurrentProcessing = processingId === c.id;
             return (
               <li key={c.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
                 {c.CountryName}
                 <div className="space-x-2">
-                  <Button size="sm" variant="secondary" onClick={() => { setEditing(c); setName(c.CountryName); }} disabled={isBusy}>수정</Button>
-                  <Button size="sm" variant="danger" onClick={() => handleDelete(c.id)} disabled={isBusy}>
-                    {isCurrentProcessing ? '삭제 중...' : '삭제'}
+                  <Button size="sm" variant="secondary" onClick={() => { setEditing(c); setName(c.CountryName); }} disabled={isSubmitting}>수정</Button>
+                  <Button size="sm" variant="danger" onClick={() => handleDelete(c.id)} disabled={isSubmitting || !canDelete}>
+                    삭제
                   </Button>
                 </div>
               </li>
@@ -220,20 +241,26 @@ const ManageCountries: React.FC<ManageProps> = ({ requestDelete }) => {
           })}
         </ul>
       )}
+      <DeleteImpactModal
+        target={deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        requestDelete={requestDelete}
+        reassignTargets={countries.filter(c => c.id !== deleteTarget?.id).map(c => ({ id: c.id, name: c.CountryName }))}
+      />
     </div>
   );
 };
 
 
 // Component to Manage Cities
-const ManageCities: React.FC<ManageProps> = ({ requestDelete }) => {
+const ManageCities: React.FC<ManageProps> = ({ requestDelete, canDelete }) => {
     const { data: cities } = useFirestoreCollection<City>('Cities');
     const { data: countries } = useFirestoreCollection<Country>('Countries');
     const [cityName, setCityName] = useState('');
     const [countryId, setCountryId] = useState('');
     const [editing, setEditing] = useState<City | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
     const [submitError, setSubmitError] = useState<string | null>(null);
 
     const cityCountryMap = useMemo(() => {
@@ -265,9 +292,9 @@ const ManageCities: React.FC<ManageProps> = ({ requestDelete }) => {
         try {
             const payload = { CityName: cityName, CountryRef: doc(db, 'Countries', countryId) };
             if (editing) {
-                await updateDoc(doc(db, 'Cities', editing.id), payload);
+                await updateDocWithAudit('Cities', editing.id, payload, editing, cityName);
             } else {
-                await addDoc(collection(db, 'Cities'), payload);
+                await createDocWithAudit('Cities', payload, cityName);
             }
             handleCancelEdit();
         } catch(error) {
@@ -279,27 +306,11 @@ const ManageCities: React.FC<ManageProps> = ({ requestDelete }) => {
     };
 
     const handleDelete = (id: string) => {
-        requestDelete(async () => {
-            setProcessingId(id);
-            setSubmitError(null);
-            try {
-                const batch = writeBatch(db);
-                const productsQuery = query(collection(db, "Products"), where("CityRef", "==", doc(db, 'Cities', id)));
-                const productsSnapshot = await getDocs(productsQuery);
-                productsSnapshot.forEach(productDoc => batch.delete(productDoc.ref));
-                batch.delete(doc(db, 'Cities', id));
-                await batch.commit();
-            } catch (error) {
-                console.error("Error deleting city:", error);
-                alert(`도시 삭제에 실패했습니다. (오류: ${(error as Error).message})`);
-            } finally {
-                setProcessingId(null);
-            }
-        });
+        const city = cities.find(c => c.id === id);
+        if (!city) return;
+        setDeleteTarget({ collection: 'Cities', id, name: city.CityName, before: city });
     }
 
-    const isBusy = isSubmitting || processingId !== null;
-
     return (
       <div>
         <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4 items-end">
@@ -309,38 +320,44 @@ const ManageCities: React.FC<ManageProps> = ({ requestDelete }) => {
                 {countries.map(c => <option key={c.id} value={c.id}>{c.CountryName}</option>)}
             </Select>
             <div className="flex gap-2">
-                <Button type="submit" disabled={isBusy}>{isSubmitting ? '저장 중...' : (editing ? '업데이트' : '추가')}</Button>
-                {editing && <Button variant="secondary" onClick={handleCancelEdit} disabled={isBusy}>취소</Button>}
+                <Button type="submit" disabled={isSubmitting}>{isSubmitting ? '저장 중...' : (editing ? '업데이트' : '추가')}</Button>
+                {editing && <Button variant="secondary" onClick={handleCancelEdit} disabled={isSubmitting}>취소</Button>}
             </div>
         </form>
         {submitError && <p className="text-red-500 my-2">{submitError}</p>}
         <ul className="space-y-2">
             {cities.map(c => {
-                const isCurrentProcessing = processingId === c.id;
                 return (
                     <li key={c.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
                         <span>{c.CityName} <span className="text-sm text-gray-500">({cityCountryMap[c.id]})</span></span>
                         <div className="space-x-2">
-                            <Button size="sm" variant="secondary" onClick={() => handleEdit(c)} disabled={isBusy}>수정</Button>
-                            <Button size="sm" variant="danger" onClick={() => handleDelete(c.id)} disabled={isBusy}>
-                                {isCurrentProcessing ? '삭제 중...' : '삭제'}
+                            <Button size="sm" variant="secondary" onClick={() => handleEdit(c)} disabled={isSubmitting}>수정</Button>
+                            <Button size="sm" variant="danger" onClick={() => handleDelete(c.id)} disabled={isSubmitting || !canDelete}>
+                                삭제
                             </Button>
                         </div>
                     </li>
                 );
             })}
         </ul>
+        <DeleteImpactModal
+            target={deleteTarget}
+            onClose={() => setDeleteTarget(null)}
+            requestDelete={requestDelete}
+            reassignTargets={cities.filter(c => c.id !== deleteTarget?.id).map(c => ({ id: c.id, name: `${c.CityName} (${cityCountryMap[c.id]})` }))}
+        />
       </div>
     )
 }
 
 // Component to Manage Categories
-const ManageCategories: React.FC<ManageProps> = ({ requestDelete }) => {
+const ManageCategories: React.FC<ManageProps> = ({ requestDelete, canDelete }) => {
     const { data: categories } = useFirestoreCollection<Category>('Categories');
     const [name, setName] = useState('');
+    const [markupPercent, setMarkupPercent] = useState('');
     const [editing, setEditing] = useState<Category | null>(null);
     const [isSubmitting, setIsSubmitting] = useState(false);
-    const [processingId, setProcessingId] = useState<string | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
     const [submitError, setSubmitError] = useState<string | null>(null);
   
     const handleSubmit = async (e: React.FormEvent) => {
@@ -349,13 +366,19 @@ const ManageCategories: React.FC<ManageProps> = ({ requestDelete }) => {
         setIsSubmitting(true);
         setSubmitError(null);
         try {
+            const markup = markupPercent.trim() === '' ? null : parseFloat(markupPercent) || 0;
             if (editing) {
-                await updateDoc(doc(db, 'Categories', editing.id), { CategoryName: name });
+                await updateDocWithAudit('Categories', editing.id, {
+                    CategoryName: name,
+                    DefaultMarkupPercent: markup === null ? deleteField() : markup,
+                }, editing, name);
             } else {
-                await addDoc(collection(db, 'Categories'), { CategoryName: name });
+                await createDocWithAudit('Categories', {
+                    CategoryName: name,
+                    ...(markup === null ? {} : { DefaultMarkupPercent: markup }),
+                }, name);
             }
-            setName('');
-            setEditing(null);
+            handleCancelEdit();
         } catch (error) {
             console.error("Error saving category:", error);
             setSubmitError(`카테고리 저장에 실패했습니다. (오류: ${(error as Error).message})`);
@@ -364,65 +387,76 @@ const ManageCategories: React.FC<ManageProps> = ({ requestDelete }) => {
         }
     };
 
+    const handleEdit = (category: Category) => {
+        setEditing(category);
+        setName(category.CategoryName);
+        setMarkupPercent(category.DefaultMarkupPercent !== undefined ? String(category.DefaultMarkupPercent) : '');
+    }
+
+    const handleCancelEdit = () => {
+        setEditing(null);
+        setName('');
+        setMarkupPercent('');
+    }
+
     const handleDelete = (id: string) => {
-        requestDelete(async () => {
-            setProcessingId(id);
-            setSubmitError(null);
-            try {
-                const batch = writeBatch(db);
-                const productsQuery = query(collection(db, "Products"), where("CategoryRef", "==", doc(db, 'Categories', id)));
-                const productsSnapshot = await getDocs(productsQuery);
-                productsSnapshot.forEach(productDoc => batch.delete(productDoc.ref));
-                batch.delete(doc(db, 'Categories', id));
-                await batch.commit();
-            } catch (error) {
-                console.error("Error deleting category:", error);
-                alert(`카테고리 삭제에 실패했습니다. (오류: ${(error as Error).message})`);
-            } finally {
-                setProcessingId(null);
-            }
-        });
+        const category = categories.find(c => c.id === id);
+        if (!category) return;
+        setDeleteTarget({ collection: 'Categories', id, name: category.CategoryName, before: category });
     }
 
-    const isBusy = isSubmitting || processingId !== null;
-  
     return (
       <div>
         <form onSubmit={handleSubmit} className="flex gap-4 mb-4">
           <Input label={editing ? '카테고리 수정' : '새 카테고리'} id="category" value={name} onChange={e => setName(e.target.value)} placeholder="예: 투어" />
+          <Input label="기본 마크업 (%)" id="category-markup" type="number" value={markupPercent} onChange={e => setMarkupPercent(e.target.value)} placeholder="미설정 시 판매가 사용" />
           <div className="self-end flex gap-2">
-            <Button type="submit" disabled={isBusy}>{isSubmitting ? '저장 중...' : (editing ? '업데이트' : '추가')}</Button>
-            {editing && <Button variant="secondary" onClick={() => { setEditing(null); setName(''); }} disabled={isBusy}>취소</Button>}
+            <Button type="submit" disabled={isSubmitting}>{isSubmitting ? '저장 중...' : (editing ? '업데이트' : '추가')}</Button>
+            {editing && <Button variant="secondary" onClick={handleCancelEdit} disabled={isSubmitting}>취소</Button>}
           </div>
         </form>
         {submitError && <p className="text-red-500 my-2">{submitError}</p>}
         <ul className="space-y-2">
           {categories.map(c => {
-            const isCurrentProcessing = processingId === c.id;
             return (
                 <li key={c.id} className="flex justify-between items-center p-2 bg-gray-50 rounded">
-                    {c.CategoryName}
+                    <span>
+                        {c.CategoryName}
+                        {c.DefaultMarkupPercent !== undefined && <span className="text-sm text-gray-500"> (마크업 {c.DefaultMarkupPercent}%)</span>}
+                    </span>
                     <div className="space-x-2">
-                    <Button size="sm" variant="secondary" onClick={() => { setEditing(c); setName(c.CategoryName); }} disabled={isBusy}>수정</Button>
-                    <Button size="sm" variant="danger" onClick={() => handleDelete(c.id)} disabled={isBusy}>
-                        {isCurrentProcessing ? '삭제 중...' : '삭제'}
+                    <Button size="sm" variant="secondary" onClick={() => handleEdit(c)} disabled={isSubmitting}>수정</Button>
+                    <Button size="sm" variant="danger" onClick={() => handleDelete(c.id)} disabled={isSubmitting || !canDelete}>
+                        삭제
                     </Button>
                     </div>
                 </li>
             );
           })}
         </ul>
+        <DeleteImpactModal
+            target={deleteTarget}
+            onClose={() => setDeleteTarget(null)}
+            requestDelete={requestDelete}
+            reassignTargets={categories.filter(c => c.id !== deleteTarget?.id).map(c => ({ id: c.id, name: c.CategoryName }))}
+        />
       </div>
     );
 };
 
+interface ManageProductsProps extends ManageProps {
+    filters: ProductFilters;
+    onFiltersChange: (filters: ProductFilters) => void;
+}
+
 // Component to Manage Products
-const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
+const ManageProducts: React.FC<ManageProductsProps> = ({ requestDelete, canDelete, filters, onFiltersChange }) => {
     const { data: products } = useFirestoreCollection<Product>('Products');
     const { data: cities } = useFirestoreCollection<City>('Cities');
     const { data: categories } = useFirestoreCollection<Category>('Categories');
     
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
     const [editingProduct, setEditingProduct] = useState<Product | null>(null);
 
     const [productName, setProductName] = useState('');
@@ -431,17 +465,23 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
     const [cityId, setCityId] = useState('');
     const [categoryId, setCategoryId] = useState('');
     const [pricingType, setPricingType] = useState<PricingType>('PerPerson');
+    const [currency, setCurrency] = useState<CurrencyCode>(BASE_CURRENCY);
     const [priceAdult, setPriceAdult] = useState(0);
     const [priceChild, setPriceChild] = useState(0);
     const [priceInfant, setPriceInfant] = useState(0);
     const [priceUnit, setPriceUnit] = useState(0);
+    const [costAdult, setCostAdult] = useState(0);
+    const [costChild, setCostChild] = useState(0);
+    const [costInfant, setCostInfant] = useState(0);
+    const [costUnit, setCostUnit] = useState(0);
+    const [pricePeriods, setPricePeriods] = useState<ProductPricePeriod[]>([]);
+    const [paxPerUnit, setPaxPerUnit] = useState('');
 
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [submitError, setSubmitError] = useState<string | null>(null);
     const [deletingId, setDeletingId] = useState<string | null>(null);
 
-    const [selectedCityId, setSelectedCityId] = useState<string>('');
-    const [selectedCategoryId, setSelectedCategoryId] = useState<string>('');
+    const { cityId: selectedCityId, categoryId: selectedCategoryId } = filters;
 
     const productDetailsMap = useMemo(() => {
         const details: Record<string, {cityName: string, categoryName: string}> = {};
@@ -462,6 +502,8 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
             .filter(p => !selectedCategoryId || p.CategoryRef.id === selectedCategoryId);
     }, [products, selectedCityId, selectedCategoryId]);
 
+    const currencySymbol = CURRENCIES.find(c => c.code === currency)?.symbol || currency;
+
     const resetForm = () => {
         setProductName('');
         setProductDescription('');
@@ -469,10 +511,17 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
         setCityId('');
         setCategoryId('');
         setPricingType('PerPerson');
+        setCurrency(BASE_CURRENCY);
         setPriceAdult(0);
         setPriceChild(0);
         setPriceInfant(0);
         setPriceUnit(0);
+        setCostAdult(0);
+        setCostChild(0);
+        setCostInfant(0);
+        setCostUnit(0);
+        setPricePeriods([]);
+        setPaxPerUnit('');
         setEditingProduct(null);
         setSubmitError(null);
     }
@@ -491,15 +540,27 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
         setCityId(product.CityRef.id);
         setCategoryId(product.CategoryRef.id);
         setPricingType(product.PricingType);
+        setCurrency(product.Currency || BASE_CURRENCY);
         setPriceAdult(product.Price_Adult || 0);
         setPriceChild(product.Price_Child || 0);
         setPriceInfant(product.Price_Infant || 0);
         setPriceUnit(product.Price_Unit || 0);
+        setCostAdult(product.Cost_Adult || 0);
+        setCostChild(product.Cost_Child || 0);
+        setCostInfant(product.Cost_Infant || 0);
+        setCostUnit(product.Cost_Unit || 0);
+        setPricePeriods(product.PricePeriods || []);
+        setPaxPerUnit(product.PaxPerUnit ? String(product.PaxPerUnit) : '');
         setIsModalOpen(true);
     }
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+        const periodError = validatePricePeriods(pricePeriods);
+        if (periodError) {
+            setSubmitError(periodError);
+            return;
+        }
         setIsSubmitting(true);
         setSubmitError(null);
         try {
@@ -510,6 +571,8 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
                 CityRef: doc(db, 'Cities', cityId),
                 CategoryRef: doc(db, 'Categories', categoryId),
                 PricingType: pricingType,
+                Currency: currency,
+                PricePeriods: normalizePricePeriods(pricePeriods, pricingType),
                 LastModified: serverTimestamp(),
             };
 
@@ -517,14 +580,25 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
                 payload.Price_Adult = priceAdult;
                 payload.Price_Child = priceChild;
                 payload.Price_Infant = priceInfant;
+                payload.Cost_Adult = costAdult;
+                payload.Cost_Child = costChild;
+                payload.Cost_Infant = costInfant;
             } else {
                 payload.Price_Unit = priceUnit;
+                payload.Cost_Unit = costUnit;
+            }
+
+            const unitsPer = pricingType === 'PerUnit' ? parseInt(paxPerUnit) || 0 : 0;
+            if (unitsPer > 0) {
+                payload.PaxPerUnit = unitsPer;
+            } else if (editingProduct?.PaxPerUnit !== undefined) {
+                payload.PaxPerUnit = deleteField();
             }
 
             if (editingProduct) {
-                await updateDoc(doc(db, 'Products', editingProduct.id), payload);
+                await updateDocWithAudit('Products', editingProduct.id, payload, editingProduct, productName);
             } else {
-                await addDoc(collection(db, 'Products'), payload);
+                await createDocWithAudit('Products', payload, productName);
             }
 
             setIsModalOpen(false);
@@ -541,7 +615,9 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
         requestDelete(async () => {
             setDeletingId(id);
             try {
-                await deleteDoc(doc(db, 'Products', id));
+                const product = products.find(p => p.id === id);
+                if (!product) return;
+                await moveToTrash('Products', id, product);
             } catch (error) {
                 console.error("Error deleting product:", error);
                 alert(`상품 삭제 실패: ${(error as Error).message}`);
@@ -554,19 +630,23 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
     return (
       <div>
         <div className="flex justify-between items-start mb-4">
-          <Button onClick={openAddModal} disabled={deletingId !== null}>새 상품 추가</Button>
+          <div className="flex gap-2">
+            <Button onClick={openAddModal} disabled={deletingId !== null}>새 상품 추가</Button>
+            <Button variant="secondary" onClick={() => setIsImportOpen(true)} disabled={deletingId !== null}>일괄 가져오기</Button>
+          </div>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              <Select label="도시 필터" id="city-filter" value={selectedCityId} onChange={e => setSelectedCityId(e.target.value)}>
+              <Select label="도시 필터" id="city-filter" value={selectedCityId} onChange={e => onFiltersChange({ ...filters, cityId: e.target.value })}>
                   <option value="">전체 도시</option>
                   {cities.sort((a,b) => a.CityName.localeCompare(b.CityName)).map(c => <option key={c.id} value={c.id}>{c.CityName}</option>)}
               </Select>
-              <Select label="카테고리 필터" id="category-filter" value={selectedCategoryId} onChange={e => setSelectedCategoryId(e.target.value)}>
+              <Select label="카테고리 필터" id="category-filter" value={selectedCategoryId} onChange={e => onFiltersChange({ ...filters, categoryId: e.target.value })}>
                   <option value="">전체 카테고리</option>
                   {categories.sort((a,b) => a.CategoryName.localeCompare(b.CategoryName)).map(c => <option key={c.id} value={c.id}>{c.CategoryName}</option>)}
               </Select>
           </div>
         </div>
-        <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingProduct ? '상품 수정' : '상품 추가'}>
+        <ProductImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+        <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingProduct ? '상품 수정' : '상품 추가'} size="lg">
             <form onSubmit={handleSubmit} className="space-y-4">
                 <Input label="상품명" id="product-name" value={productName} onChange={e => setProductName(e.target.value)} required />
                 <Input
@@ -594,19 +674,33 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
                         {categories.map(c => <option key={c.id} value={c.id}>{c.CategoryName}</option>)}
                     </Select>
                 </div>
-                <Select label="가격 유형" id="pricing-type" value={pricingType} onChange={e => setPricingType(e.target.value as PricingType)}>
-                    <option value="PerPerson">인당</option>
-                    <option value="PerUnit">단위당</option>
-                </Select>
+                <div className="grid grid-cols-2 gap-4">
+                    <Select label="가격 유형" id="pricing-type" value={pricingType} onChange={e => setPricingType(e.target.value as PricingType)}>
+                        <option value="PerPerson">인당</option>
+                        <option value="PerUnit">단위당</option>
+                    </Select>
+                    <Select label="가격 통화" id="product-currency" value={currency} onChange={e => setCurrency(e.target.value as CurrencyCode)}>
+                        {CURRENCIES.map(c => <option key={c.code} value={c.code}>{`${c.code} (${c.name})`}</option>)}
+                    </Select>
+                </div>
                 {pricingType === 'PerPerson' ? (
                     <div className="grid grid-cols-3 gap-4">
-                        <Input label="가격 (성인, ₩)" id="price-adult" type="number" value={priceAdult} onChange={e => setPriceAdult(parseFloat(e.target.value) || 0)} />
-                        <Input label="가격 (아동, ₩)" id="price-child" type="number" value={priceChild} onChange={e => setPriceChild(parseFloat(e.target.value) || 0)} />
-                        <Input label="가격 (유아, ₩)" id="price-infant" type="number" value={priceInfant} onChange={e => setPriceInfant(parseFloat(e.target.value) || 0)} />
+                        <Input label={`가격 (성인, ${currencySymbol})`} id="price-adult" type="number" value={priceAdult} onChange={e => setPriceAdult(parseFloat(e.target.value) || 0)} />
+                        <Input label={`가격 (아동, ${currencySymbol})`} id="price-child" type="number" value={priceChild} onChange={e => setPriceChild(parseFloat(e.target.value) || 0)} />
+                        <Input label={`가격 (유아, ${currencySymbol})`} id="price-infant" type="number" value={priceInfant} onChange={e => setPriceInfant(parseFloat(e.target.value) || 0)} />
+                        <Input label={`원가 (성인, ${currencySymbol})`} id="cost-adult" type="number" value={costAdult} onChange={e => setCostAdult(parseFloat(e.target.value) || 0)} />
+                        <Input label={`원가 (아동, ${currencySymbol})`} id="cost-child" type="number" value={costChild} onChange={e => setCostChild(parseFloat(e.target.value) || 0)} />
+                        <Input label={`원가 (유아, ${currencySymbol})`} id="cost-infant" type="number" value={costInfant} onChange={e => setCostInfant(parseFloat(e.target.value) || 0)} />
                     </div>
                 ) : (
-                    <Input label="가격 (단위, ₩)" id="price-unit" type="number" value={priceUnit} onChange={e => setPriceUnit(parseFloat(e.target.value) || 0)} />
+                    <div className="grid grid-cols-3 gap-4">
+                        <Input label={`가격 (단위, ${currencySymbol})`} id="price-unit" type="number" value={priceUnit} onChange={e => setPriceUnit(parseFloat(e.target.value) || 0)} />
+                        <Input label={`원가 (단위, ${currencySymbol})`} id="cost-unit" type="number" value={costUnit} onChange={e => setCostUnit(parseFloat(e.target.value) || 0)} />
+                        <Input label="인원당 수량 (N명당 1개)" id="pax-per-unit" type="number" min="1" value={paxPerUnit} onChange={e => setPaxPerUnit(e.target.value)} placeholder="비워두면 고정 수량" />
+                    </div>
                 )}
+                <p className="text-xs text-gray-500">원가는 내부용이며 고객 견적서에는 표시되지 않습니다. 카테고리 또는 견적에 마크업이 설정되면 판매가는 원가 기준으로 계산됩니다.</p>
+                <PricePeriodEditor periods={pricePeriods} onChange={setPricePeriods} pricingType={pricingType} currencySymbol={currencySymbol} />
 
                 {submitError && <p className="text-red-500 text-sm">{submitError}</p>}
 
@@ -656,16 +750,26 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
                                     </td>
                                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{productDetailsMap[p.id]?.cityName}</td>
                                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{productDetailsMap[p.id]?.categoryName}</td>
-                                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{p.PricingType === 'PerPerson' ? '인당' : '단위당'}</td>
+                                    <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                                        {p.PricingType === 'PerPerson' ? '인당' : '단위당'}
+                                        {p.PricingType === 'PerUnit' && p.PaxPerUnit && <div className="text-xs text-gray-400">{`${p.PaxPerUnit}명당 1개`}</div>}
+                                    </td>
                                     <td className="px-3 py-4 text-sm text-gray-500">
                                         { p.PricingType === 'PerPerson' ? (
                                             <div className="text-xs">
-                                                <div>{`성인: ${formatCurrency(p.Price_Adult || 0)}`}</div>
-                                                <div>{`아동: ${formatCurrency(p.Price_Child || 0)}`}</div>
-                                                <div>{`유아: ${formatCurrency(p.Price_Infant || 0)}`}</div>
+                                                <div>{`성인: ${formatCurrency(p.Price_Adult || 0, p.Currency)}`}</div>
+                                                <div>{`아동: ${formatCurrency(p.Price_Child || 0, p.Currency)}`}</div>
+                                                <div>{`유아: ${formatCurrency(p.Price_Infant || 0, p.Currency)}`}</div>
+                                                <div className="text-gray-400">{`원가: ${formatCurrency(p.Cost_Adult || 0, p.Currency)} / ${formatCurrency(p.Cost_Child || 0, p.Currency)} / ${formatCurrency(p.Cost_Infant || 0, p.Currency)}`}</div>
                                             </div>
                                         ) : (
-                                            formatCurrency(p.Price_Unit || 0)
+                                            <div>
+                                                {formatCurrency(p.Price_Unit || 0, p.Currency)}
+                                                <div className="text-xs text-gray-400">{`원가: ${formatCurrency(p.Cost_Unit || 0, p.Currency)}`}</div>
+                                            </div>
+                                        )}
+                                        {p.PricePeriods && p.PricePeriods.length > 0 && (
+                                            <div className="text-xs text-purple-700 mt-1">{`기간별 요금 ${p.PricePeriods.length}개: ${p.PricePeriods.map(period => period.Name).join(', ')}`}</div>
                                         )}
                                     </td>
                                     <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
@@ -676,7 +780,7 @@ const ManageProducts: React.FC<ManageProps> = ({ requestDelete }) => {
                                     <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-0">
                                         <div className="space-x-2">
                                             <Button size="sm" variant="secondary" onClick={() => openEditModal(p)} disabled={deletingId !== null}>수정</Button>
-                                            <Button size="sm" variant="danger" onClick={() => handleDelete(p.id)} disabled={deletingId !== null}>
+                                            <Button size="sm" variant="danger" onClick={() => handleDelete(p.id)} disabled={deletingId !== null || !canDelete}>
                                                 {isCurrentDeleting ? '삭제 중...' : '삭제'}
                                             </Button>
                                         </div>
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { signIn, signUp, getAuthErrorMessage } from '../services/authService';
+import Input from '../components/ui/Input';
+import Button from '../components/ui/Button';
+
+const LoginPage: React.FC = () => {
+  const [isSignUp, setIsSignUp] = useState(false);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (isSignUp) {
+        await signUp(email.trim(), password, displayName.trim());
+      } else {
+        await signIn(email.trim(), password);
+      }
+    } catch (err) {
+      console.error('인증 실패:', err);
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const toggleMode = () => {
+    setIsSignUp(prev => !prev);
+    setError(null);
+  };
+
+  return (
+    <div className="max-w-md mx-auto mt-16 bg-white p-8 rounded-lg shadow-md">
+      <h1 className="text-2xl font-bold mb-2 text-center">{isSignUp ? '계정 만들기' : '로그인'}</h1>
+      {isSignUp && (
+        <p className="text-sm text-gray-500 text-center mb-4">새 계정은 소유자가 승인할 때까지 대기 상태로 시작하며, 승인 전에는 견적과 상품을 볼 수 없습니다.</p>
+      )}
+      <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+        {isSignUp && (
+          <Input label="이름" id="signup-name" value={displayName} onChange={e => setDisplayName(e.target.value)} required />
+        )}
+        <Input label="이메일" id="login-email" type="email" autoComplete="email" value={email} onChange={e => setEmail(e.target.value)} required autoFocus />
+        <Input
+          label="비밀번호"
+          id="login-password"
+          type="password"
+          autoComplete={isSignUp ? 'new-password' : 'current-password'}
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          required
+        />
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? '처리 중...' : (isSignUp ? '가입하기' : '로그인')}
+        </Button>
+      </form>
+      <button onClick={toggleMode} className="mt-4 w-full text-sm text-blue-600 hover:underline">
+        {isSignUp ? '이미 계정이 있으신가요? 로그인' : '계정이 없으신가요? 가입하기'}
+      </button>
+    </div>
+  );
+};
+
+export default LoginPage;
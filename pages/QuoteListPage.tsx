@@ -0,0 +1,160 @@
+import React, { useState, useMemo } from 'react';
+import { db } from '../firebase';
+import { collection, query, orderBy, Timestamp } from 'firebase/firestore';
+import { useFirestoreCollection } from '../hooks/useFirestoreCollection';
+import { Country, City, SavedQuote, CurrencyCode } from '../types';
+import { formatMoney } from '../services/currencyService';
+import { withDayLocations } from '../services/itineraryService';
+import { CUSTOMER_RESPONSE_LABELS } from '../services/shareService';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
+
+type DateField = 'CreatedAt' | 'UpdatedAt';
+
+const formatCurrency = (amount: number, currency?: CurrencyCode): string => {
+    return formatMoney(amount, currency);
+}
+
+// Every city on the itinerary, in visiting order.
+const formatQuoteCities = (quote: SavedQuote, cityNameMap: Record<string, string>): string => {
+    const names = withDayLocations(quote.info, quote.days)
+        .map(day => cityNameMap[day.cityId || ''] || day.cityName)
+        .filter((name, index, all): name is string => !!name && name !== all[index - 1]);
+    return names.length > 0 ? names.join(' → ') : '해당 없음';
+}
+
+const formatDate = (timestamp?: Timestamp | null): string => {
+    return timestamp ? timestamp.toDate().toLocaleDateString('sv-SE') : 'N/A';
+}
+
+interface QuoteListPageProps {
+    onOpenQuote: (quoteId: string) => void;
+}
+
+const QuoteListPage: React.FC<QuoteListPageProps> = ({ onOpenQuote }) => {
+    const quotesQuery = useMemo(() => query(collection(db, 'Quotes'), orderBy('UpdatedAt', 'desc')), []);
+    const { data: quotes, loading, error } = useFirestoreCollection<SavedQuote>('Quotes', quotesQuery);
+    const { data: countries } = useFirestoreCollection<Country>('Countries');
+    const { data: cities } = useFirestoreCollection<City>('Cities');
+
+    const [searchTerm, setSearchTerm] = useState('');
+    const [selectedCityId, setSelectedCityId] = useState('');
+    const [dateField, setDateField] = useState<DateField>('UpdatedAt');
+    const [dateFrom, setDateFrom] = useState('');
+    const [dateTo, setDateTo] = useState('');
+
+    const cityNameMap = useMemo(() => {
+        return cities.reduce((acc, city) => {
+            const country = countries.find(c => c.id === city.CountryRef.id);
+            acc[city.id] = country ? `${city.CityName} (${country.CountryName})` : city.CityName;
+            return acc;
+        }, {} as Record<string, string>);
+    }, [cities, countries]);
+
+    const filteredQuotes = useMemo(() => {
+        const lowercasedFilter = searchTerm.toLowerCase().trim();
+        // Date inputs are local dates; compare against the start of `from` and the end of `to`.
+        const fromTime = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : null;
+        const toTime = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : null;
+
+        return quotes
+            .filter(q => !lowercasedFilter || (q.info.customerName || '').toLowerCase().includes(lowercasedFilter))
+            .filter(q => !selectedCityId || withDayLocations(q.info, q.days).some(day => day.cityId === selectedCityId))
+            .filter(q => {
+                if (fromTime === null && toTime === null) return true;
+                const timestamp = q[dateField];
+                if (!timestamp) return false;
+                const time = timestamp.toMillis();
+                return (fromTime === null || time >= fromTime) && (toTime === null || time <= toTime);
+            });
+    }, [quotes, searchTerm, selectedCityId, dateField, dateFrom, dateTo]);
+
+    const resetFilters = () => {
+        setSearchTerm('');
+        setSelectedCityId('');
+        setDateField('UpdatedAt');
+        setDateFrom('');
+        setDateTo('');
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg shadow-md">
+            <h1 className="text-2xl font-bold mb-4">견적 목록</h1>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 items-end mb-6">
+                <Input label="고객명 검색" id="quote-search" placeholder="고객명으로 검색..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} />
+                <Select label="도시" id="quote-city-filter" value={selectedCityId} onChange={e => setSelectedCityId(e.target.value)}>
+                    <option value="">전체 도시</option>
+                    {cities.map(c => <option key={c.id} value={c.id}>{cityNameMap[c.id]}</option>)}
+                </Select>
+                <Select label="기준 날짜" id="quote-date-field" value={dateField} onChange={e => setDateField(e.target.value as DateField)}>
+                    <option value="UpdatedAt">수정일</option>
+                    <option value="CreatedAt">생성일</option>
+                </Select>
+                <div className="grid grid-cols-2 gap-2">
+                    <Input label="시작일" id="quote-date-from" type="date" value={dateFrom} onChange={e => setDateFrom(e.target.value)} />
+                    <Input label="종료일" id="quote-date-to" type="date" value={dateTo} onChange={e => setDateTo(e.target.value)} />
+                </div>
+                <div>
+                    <Button variant="secondary" onClick={resetFilters}>필터 초기화</Button>
+                </div>
+            </div>
+
+            {loading ? <p>로딩 중...</p> : error ? (
+                <p className="text-red-500">견적 목록을 불러오는 데 실패했습니다. (오류: {error.message})</p>
+            ) : filteredQuotes.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8 bg-gray-50 rounded-md">
+                    {quotes.length === 0 ? '저장된 견적이 없습니다.' : '검색 결과가 없습니다.'}
+                </p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-gray-300">
+                        <thead>
+                        <tr>
+                            <th scope="col" className="py-3.5 pl-4 pr-3 text-left text-sm font-semibold text-gray-900 sm:pl-0">고객명</th>
+                            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">도시</th>
+                            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">인원</th>
+                            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">일정</th>
+                            <th scope="col" className="px-3 py-3.5 text-right text-sm font-semibold text-gray-900">총 합계</th>
+                            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">생성일</th>
+                            <th scope="col" className="px-3 py-3.5 text-left text-sm font-semibold text-gray-900">수정일</th>
+                            <th scope="col" className="relative py-3.5 pl-3 pr-4 sm:pr-0"><span className="sr-only">열기</span></th>
+                        </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                        {filteredQuotes.map(q => (
+                            <tr key={q.id}>
+                                <td className="whitespace-nowrap py-4 pl-4 pr-3 text-sm font-medium text-gray-900 sm:pl-0">
+                                    {q.info.customerName || '(이름 없음)'}
+                                    {q.CurrentVersion && <span className="ml-2 text-xs text-gray-500">v{q.CurrentVersion}</span>}
+                                    {q.CustomerResponse && (
+                                        <span
+                                            className={`ml-2 px-1.5 py-0.5 rounded text-xs font-normal ${q.CustomerResponse.Status === 'accepted' ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'}`}
+                                            title={q.CustomerResponse.Message || undefined}
+                                        >
+                                            {`고객 ${CUSTOMER_RESPONSE_LABELS[q.CustomerResponse.Status]} (v${q.CustomerResponse.Version})`}
+                                        </span>
+                                    )}
+                                </td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{formatQuoteCities(q, cityNameMap)}</td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">
+                                    {`성인 ${q.info.pax.adults} / 아동 ${q.info.pax.children} / 유아 ${q.info.pax.infants}`}
+                                </td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{q.days.length}일</td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-900 text-right font-semibold">{formatCurrency(q.grandTotal, q.info.currency)}</td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{formatDate(q.CreatedAt)}</td>
+                                <td className="whitespace-nowrap px-3 py-4 text-sm text-gray-500">{formatDate(q.UpdatedAt)}</td>
+                                <td className="relative whitespace-nowrap py-4 pl-3 pr-4 text-right text-sm font-medium sm:pr-0">
+                                    <Button size="sm" onClick={() => onOpenQuote(q.id)}>열기</Button>
+                                </td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default QuoteListPage;
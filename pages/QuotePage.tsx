@@ -1,31 +1,199 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { db } from '../firebase';
 import { collection, query, where, doc, getDocs } from 'firebase/firestore';
 import { useFirestoreCollection } from '../hooks/useFirestoreCollection';
-import { Country, City, Category, Product, Quote, QuoteDay, QuoteItem, QuoteInfo } from '../types';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+import { Country, City, PackageTemplate, Product, Quote, QuoteAdjustment, QuoteDay, QuoteItem, QuoteInfo, QuoteRevision, ExchangeRate, CurrencyCode, PaxType } from '../types';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
 import Modal from '../components/ui/Modal';
 import { generateTextQuote, exportCsvQuote } from '../services/exportService';
+import { exportXlsxQuote } from '../services/xlsxExportService';
+import { saveQuote, loadQuote, restoreQuoteRevision } from '../services/quoteService';
+import { repriceItemWithMarkup, summarizeItemMargin, summarizeDayMargin, summarizeQuoteMargin, summarizeMargin, getEffectiveMarkupPercent, getProductRates, priceItemFromCatalog, scalesWithPax, hasItemCost, buildPriceTiers, repriceForDayDates, MarginSummary } from '../services/pricingService';
+import { calculateItemTotal, formatItemBreakdown, PAX_COUNT_FIELDS, PAX_TYPES, PAX_TYPE_LABELS } from '../services/quoteItemService';
+import { CURRENCIES, BASE_CURRENCY, formatMoney, roundMoney, getConversionRate, todayDateString } from '../services/currencyService';
+import { groupItemsByCategory, getDayDate, formatDayLabel, addDays, daysBetween, withDayLocations, formatRouteSummary, moveDay, moveItem } from '../services/itineraryService';
+import { loadCategoryMap, toQuoteProduct } from '../services/productService';
+import { loadTemplateProducts } from '../services/packageTemplateService';
+import { listDrafts, saveDraft, deleteDraft, findCatalogChanges, QuoteDraft, CatalogIssue } from '../services/draftService';
+import { calculateQuoteTotals, calculatePerPersonPrices, DEFAULT_TAX_LABEL } from '../services/quoteTotalsService';
+import QuoteRevisionsModal from '../components/quote/QuoteRevisionsModal';
+import QuoteAdjustmentsEditor from '../components/quote/QuoteAdjustmentsEditor';
+import PriceTierTable from '../components/quote/PriceTierTable';
+import PackageTemplatePickerModal from '../components/quote/PackageTemplatePickerModal';
+import SavePackageTemplateModal from '../components/quote/SavePackageTemplateModal';
+import QuoteHistoryPanel from '../components/quote/QuoteHistoryPanel';
+import QuoteDraftsModal from '../components/quote/QuoteDraftsModal';
+import ShareQuoteModal from '../components/quote/ShareQuoteModal';
+import QuoteDocumentModal from '../components/quote/QuoteDocumentModal';
 
-const formatCurrency = (amount: number): string => {
-    return `₩${Math.round(amount).toLocaleString('ko-KR')}`;
+const formatCurrency = (amount: number, currency?: CurrencyCode): string => {
+    return formatMoney(amount, currency);
 }
 
-const QuotePage: React.FC = () => {
+const formatMargin = ({ margin, marginRate }: MarginSummary, currency?: CurrencyCode): string => {
+    const rate = marginRate === null ? '-' : `${(marginRate * 100).toFixed(1)}%`;
+    return `${formatCurrency(margin, currency)} (${rate})`;
+}
+
+// Catalog prices of a product on `date`, labelled with the rate period when one applies.
+const formatProductPrices = (product: Product, date?: string): string => {
+    const { rates, period } = getProductRates(product, date);
+    const prices = product.PricingType === 'PerPerson'
+        ? `성인: ${formatCurrency(rates.Price_Adult || 0, product.Currency)} / 아동: ${formatCurrency(rates.Price_Child || 0, product.Currency)} / 유아: ${formatCurrency(rates.Price_Infant || 0, product.Currency)}`
+        : `단위당 가격: ${formatCurrency(rates.Price_Unit || 0, product.Currency)}`;
+    return period ? `[${period.Name}] ${prices}` : prices;
+}
+
+const formatCostBreakdown = (item: QuoteItem, currency?: CurrencyCode): string => {
+    if (!item.paxLines) return `${formatCurrency(item.costPrice || 0, currency)} × ${item.quantity}`;
+    return item.paxLines
+        .filter(line => line.quantity > 0)
+        .map(line => `${PAX_TYPE_LABELS[line.paxType]} ${line.quantity} × ${formatCurrency(line.costPrice || 0, currency)}`)
+        .join(' + ');
+}
+
+const parseOptionalNumber = (value: string): number | undefined => {
+    return value.trim() === '' ? undefined : parseFloat(value) || 0;
+}
+
+// Matches the validity stated in the default quote terms.
+const DEFAULT_VALIDITY_DAYS = 14;
+
+const createInitialQuoteInfo = (): QuoteInfo => ({
+    customerName: '',
+    countryId: '',
+    cityId: '',
+    pax: { adults: 1, children: 0, infants: 0 },
+    validUntil: addDays(todayDateString(), DEFAULT_VALIDITY_DAYS),
+});
+
+const formatDaysUntilDeparture = (days: number): string => {
+    if (days > 0) return `출발까지 D-${days}`;
+    if (days === 0) return '오늘 출발 (D-DAY)';
+    return `출발일 ${-days}일 지남`;
+}
+
+// Everything undo/redo restores.
+interface QuoteSnapshot {
+    quoteInfo: QuoteInfo;
+    days: QuoteDay[];
+    adjustments: QuoteAdjustment[];
+    grandTotal: number;
+}
+
+const INFO_CHANGE_LABELS: Partial<Record<keyof QuoteInfo, string>> = {
+    customerName: '고객명 변경',
+    departureDate: '출발일 변경',
+    validUntil: '유효기간 변경',
+    pax: '인원 변경',
+    priceTierSizes: '인원별 요금표 변경',
+    includePriceTiers: '인원별 요금표 포함 여부 변경',
+};
+
+const ITEM_FIELD_LABELS: Record<'quantity' | 'appliedPrice' | 'markupPercent', string> = {
+    quantity: '수량',
+    appliedPrice: '적용가',
+    markupPercent: '마크업',
+};
+
+// What is being dragged in the itinerary: a whole day or one item.
+type DragSource = { type: 'day'; dayId: string } | { type: 'item'; itemId: string };
+
+type DayLocation = Pick<QuoteDay, 'countryId' | 'cityId' | 'countryName' | 'cityName'>;
+
+// New days start where the previous day ended.
+const createEmptyDay = (location: DayLocation = { countryId: '', cityId: '' }): QuoteDay => ({
+    id: crypto.randomUUID(),
+    countryId: location.countryId,
+    cityId: location.cityId,
+    countryName: location.countryName,
+    cityName: location.cityName,
+    items: [],
+    dayTotal: 0,
+});
+
+interface QuotePageProps {
+    quoteId: string | null;
+    onQuoteIdChange: (quoteId: string | null) => void;
+    canEdit: boolean; // Viewers can build and export quotes but not save them
+}
+
+const QuotePage: React.FC<QuotePageProps> = ({ quoteId, onQuoteIdChange, canEdit }) => {
     const { data: countries } = useFirestoreCollection<Country>('Countries');
     const { data: allCities } = useFirestoreCollection<City>('Cities');
+    const { data: exchangeRates } = useFirestoreCollection<ExchangeRate>('ExchangeRates');
     
-    const [quoteInfo, setQuoteInfo] = useState<QuoteInfo>({
-        customerName: '',
-        countryId: '',
-        cityId: '',
-        pax: { adults: 1, children: 0, infants: 0 },
-    });
+    const [quoteInfo, setQuoteInfo] = useState<QuoteInfo>(createInitialQuoteInfo);
     
-    const [days, setDays] = useState<QuoteDay[]>([{ id: crypto.randomUUID(), items: [], dayTotal: 0 }]);
-    const [grandTotal, setGrandTotal] = useState(0);
+    const [days, setDays] = useState<QuoteDay[]>(() => [createEmptyDay()]);
+    const [grandTotal, setGrandTotal] = useState(0); // Sum of the day totals, before adjustments and tax
+    const [adjustments, setAdjustments] = useState<QuoteAdjustment[]>([]);
+
+    // The builder's state is autosaved as a draft once it has been edited. Each quote
+    // opened in the builder gets its own draft.
+    const draftIdRef = useRef<string>(crypto.randomUUID());
+    const hasUnsavedChangesRef = useRef(false);
+
+    const history = useUndoHistory<QuoteSnapshot>(
+        () => ({ quoteInfo, days, adjustments, grandTotal }),
+        snapshot => {
+            hasUnsavedChangesRef.current = true;
+            setQuoteInfo(snapshot.quoteInfo);
+            setDays(snapshot.days);
+            setAdjustments(snapshot.adjustments);
+            setGrandTotal(snapshot.grandTotal);
+        }
+    );
+    const { undo, redo } = history;
+
+    const record = (label: string, coalesceKey?: string) => {
+        hasUnsavedChangesRef.current = true;
+        history.record(label, coalesceKey);
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) work everywhere except in multi-line text such as the terms.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            if (e.target instanceof HTMLTextAreaElement) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    const dayNumber = (dayId: string) => `${days.findIndex(d => d.id === dayId) + 1}일차`;
+    const itemName = (itemId: string) => days.flatMap(d => d.items).find(i => i.id === itemId)?.product.ProductName ?? '상품';
+
+    // Tracks which saved quote the builder state currently belongs to, so that
+    // saving a new quote doesn't trigger a reload of the same document.
+    const loadedQuoteIdRef = useRef<string | null>(null);
+    const [isLoadingQuote, setIsLoadingQuote] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRevisionsModalOpen, setIsRevisionsModalOpen] = useState(false);
+    const [showMargin, setShowMargin] = useState(true);
+    const [isDocumentModalOpen, setIsDocumentModalOpen] = useState(false);
+    const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+    const [dragSource, setDragSource] = useState<DragSource | null>(null);
+    const [dropTargetDayId, setDropTargetDayId] = useState<string | null>(null);
+    const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+    const [recoverableDraft, setRecoverableDraft] = useState<QuoteDraft | null>(() => listDrafts()[0] ?? null);
+    const [isDraftsModalOpen, setIsDraftsModalOpen] = useState(false);
+    const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+    // Recovered drafts are checked against the catalog; the current products are kept so
+    // repriced items can be updated.
+    const [catalogIssues, setCatalogIssues] = useState<Record<string, CatalogIssue>>({});
+    const [catalogProducts, setCatalogProducts] = useState<Map<string, Product>>(new Map());
 
     const [isProductModalOpen, setIsProductModalOpen] = useState(false);
     const [activeDayId, setActiveDayId] = useState<string | null>(null);
@@ -34,19 +202,29 @@ const QuotePage: React.FC = () => {
     const [isModalLoading, setIsModalLoading] = useState(false);
     const [modalError, setModalError] = useState<string | null>(null);
 
-    const availableCities = useMemo(() => {
-        if (!quoteInfo.countryId) return [];
-        return allCities.filter(city => city.CountryRef.id === quoteInfo.countryId);
-    }, [quoteInfo.countryId, allCities]);
+    const quoteCurrency = quoteInfo.currency || BASE_CURRENCY;
+    // Rates are looked up for the day the quote is being prepared.
+    const rateDate = todayDateString();
+
+    const citiesByCountry = useMemo(() => {
+        return allCities.reduce((acc, city) => {
+            const countryId = city.CountryRef.id;
+            if (!acc[countryId]) acc[countryId] = [];
+            acc[countryId].push(city);
+            return acc;
+        }, {} as Record<string, City[]>);
+    }, [allCities]);
 
     const recalculateQuote = useCallback((currentDays: QuoteDay[]): { newDays: QuoteDay[], newGrandTotal: number } => {
         let grandTotal = 0;
         const newDays = currentDays.map(day => {
             let dayTotal = 0;
             const newItems = day.items.map(item => {
-                const total = item.quantity * item.appliedPrice;
+                const total = calculateItemTotal(item);
                 dayTotal += total;
-                return { ...item, total };
+                // Items priced per pax type keep their total headcount in `quantity`.
+                const quantity = item.paxLines ? item.paxLines.reduce((sum, line) => sum + line.quantity, 0) : item.quantity;
+                return { ...item, quantity, total };
             });
             grandTotal += dayTotal;
             return { ...day, items: newItems, dayTotal };
@@ -55,34 +233,205 @@ const QuotePage: React.FC = () => {
     }, []);
 
     const handleInfoChange = (field: keyof QuoteInfo, value: any) => {
+        record(INFO_CHANGE_LABELS[field] ?? '기본 정보 변경', `info:${field}`);
         if (field === 'pax') {
             const newPax = { ...quoteInfo.pax, ...value };
             setQuoteInfo(prev => ({ ...prev, pax: newPax }));
+            repriceForPax(newPax);
+        } else if (field === 'departureDate') {
+            setQuoteInfo(prev => ({ ...prev, departureDate: value }));
+            repriceForDepartureDate({ ...quoteInfo, departureDate: value });
         } else {
             setQuoteInfo(prev => ({ ...prev, [field]: value }));
         }
     };
     
+    // Re-prices every item whose catalog price depends on the group size. Items edited
+    // by hand are left as they are. The stored exchange rate keeps the currency consistent.
+    const repriceForPax = (pax: QuoteInfo['pax']) => {
+        setDays(currentDays => {
+            const intermediateDays = currentDays.map((day, index) => {
+                const dayDate = getDayDate(quoteInfo.departureDate, index);
+                return {
+                    ...day,
+                    items: day.items.map(item => item.overridden || !scalesWithPax(item)
+                        ? item
+                        : priceItemFromCatalog(item, pax, dayDate, item.exchangeRate || 1, quoteInfo.markupPercent, quoteCurrency)),
+                };
+            });
+            const { newDays, newGrandTotal } = recalculateQuote(intermediateDays);
+            setGrandTotal(newGrandTotal);
+            return newDays;
+        });
+    };
+
+    const startNewDraft = () => {
+        draftIdRef.current = crypto.randomUUID();
+        hasUnsavedChangesRef.current = false;
+        setCatalogIssues({});
+        history.clear();
+    };
+
+    // A new departure date moves every day, so items on seasonal rates follow their new dates.
+    const repriceForDepartureDate = (info: QuoteInfo) => {
+        setDays(currentDays => {
+            const { newDays, newGrandTotal } = recalculateQuote(repriceForDayDates(currentDays, info));
+            setGrandTotal(newGrandTotal);
+            return newDays;
+        });
+    };
+
+    const resetQuote = () => {
+        setQuoteInfo(createInitialQuoteInfo());
+        setDays([createEmptyDay()]);
+        setGrandTotal(0);
+        setAdjustments([]);
+        startNewDraft();
+    };
+
+    const applyQuote = (quote: Quote) => {
+        const { newDays, newGrandTotal } = recalculateQuote(withDayLocations(quote.info, quote.days));
+        setQuoteInfo(quote.info);
+        setDays(newDays.length > 0 ? newDays : [createEmptyDay()]);
+        setGrandTotal(newGrandTotal);
+        setAdjustments(quote.adjustments || []);
+        startNewDraft();
+    };
+
+    // Continues the draft where it was left, including the saved quote it belongs to. Items
+    // whose product was deleted or repriced since are flagged once the catalog has been checked.
+    const recoverDraft = (draft: QuoteDraft) => {
+        loadedQuoteIdRef.current = draft.quoteId;
+        onQuoteIdChange(draft.quoteId);
+        applyQuote(draft.quote);
+        draftIdRef.current = draft.id;
+        setRecoverableDraft(null);
+        setIsDraftsModalOpen(false);
+        findCatalogChanges(draft.quote.days)
+            .then(({ issues, products }) => {
+                setCatalogIssues(issues);
+                setCatalogProducts(products);
+            })
+            .catch(err => console.error("Failed to check draft products:", err));
+    };
+
     useEffect(() => {
-        if (quoteInfo.countryId && !availableCities.find(c => c.id === quoteInfo.cityId)) {
-            setQuoteInfo(prev => ({ ...prev, cityId: '' }));
+        if (quoteId === loadedQuoteIdRef.current) return;
+        loadedQuoteIdRef.current = quoteId;
+
+        if (!quoteId) {
+            resetQuote();
+            return;
         }
-    }, [quoteInfo.countryId, quoteInfo.cityId, availableCities]);
 
+        setIsLoadingQuote(true);
+        loadQuote(quoteId)
+            .then(savedQuote => {
+                if (!savedQuote) {
+                    alert('견적을 찾을 수 없습니다.');
+                    loadedQuoteIdRef.current = null;
+                    onQuoteIdChange(null);
+                    resetQuote();
+                    return;
+                }
+                applyQuote(savedQuote);
+            })
+            .catch(err => {
+                console.error("Failed to load quote:", err);
+                alert(`견적을 불러오는 데 실패했습니다. (오류: ${(err as Error).message})`);
+            })
+            .finally(() => setIsLoadingQuote(false));
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [quoteId]);
 
-    const addDay = () => setDays([...days, { id: crypto.randomUUID(), items: [], dayTotal: 0 }]);
+    const addDay = () => {
+        record('일차 추가');
+        setDays([...days, createEmptyDay(days[days.length - 1])]);
+    };
+
+    const updateDayLocation = (dayId: string, countryId: string, cityId: string) => {
+        record(`${dayNumber(dayId)} 여행지 변경`);
+        const countryName = countries.find(c => c.id === countryId)?.CountryName;
+        const cityName = allCities.find(c => c.id === cityId)?.CityName;
+        setDays(currentDays => currentDays.map(day =>
+            day.id === dayId ? { ...day, countryId, cityId, countryName, cityName } : day
+        ));
+    };
     
-    const removeDay = (id: string) => {
+    // Inserting, removing or moving days changes the dates of the days after them, so items
+    // on seasonal rates are re-priced before the totals are recalculated.
+    const rearrangeDays = (change: (currentDays: QuoteDay[]) => QuoteDay[]) => {
         setDays(currentDays => {
-            const intermediateDays = currentDays.filter(d => d.id !== id);
+            const intermediateDays = repriceForDayDates(change(currentDays), quoteInfo);
             const { newDays, newGrandTotal } = recalculateQuote(intermediateDays);
             setGrandTotal(newGrandTotal);
             return newDays;
         });
     };
 
+    const removeDay = (id: string) => {
+        record(`${dayNumber(id)} 삭제`);
+        rearrangeDays(currentDays => currentDays.filter(d => d.id !== id));
+        setAdjustments(current => current.filter(adjustment => adjustment.dayId !== id));
+    };
+
+    const insertDay = (dayId: string, position: 'before' | 'after') => {
+        record(`${dayNumber(dayId)} ${position === 'before' ? '앞에' : '뒤에'} 일차 삽입`);
+        rearrangeDays(currentDays => {
+            const index = currentDays.findIndex(d => d.id === dayId);
+            const insertAt = position === 'before' ? index : index + 1;
+            return [...currentDays.slice(0, insertAt), createEmptyDay(currentDays[index]), ...currentDays.slice(insertAt)];
+        });
+    };
+
+    // The copy keeps the prices of the original, including hand-edited ones.
+    const duplicateDay = (dayId: string) => {
+        record(`${dayNumber(dayId)} 복제`);
+        rearrangeDays(currentDays => {
+            const index = currentDays.findIndex(d => d.id === dayId);
+            const original = currentDays[index];
+            const copy: QuoteDay = {
+                ...original,
+                id: crypto.randomUUID(),
+                items: original.items.map(item => ({ ...item, id: crypto.randomUUID() })),
+            };
+            return [...currentDays.slice(0, index + 1), copy, ...currentDays.slice(index + 1)];
+        });
+    };
+
+    const handleDragEnd = () => {
+        setDragSource(null);
+        setDropTargetDayId(null);
+    };
+
+    const handleDayDragOver = (e: React.DragEvent, dayId: string) => {
+        if (!dragSource) return;
+        e.preventDefault();
+        if (dropTargetDayId !== dayId) setDropTargetDayId(dayId);
+    };
+
+    // A dragged day takes the place of the day it is dropped on; a dragged item goes to the
+    // end of the day, or before the item it is dropped on.
+    const handleDrop = (e: React.DragEvent, dayId: string, beforeItemId?: string) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const source = dragSource;
+        handleDragEnd();
+        if (!source) return;
+        if (source.type === 'day') {
+            if (source.dayId === dayId) return;
+            record(`${dayNumber(source.dayId)} → ${dayNumber(dayId)} 자리로 이동`);
+            rearrangeDays(currentDays => moveDay(currentDays, source.dayId, currentDays.findIndex(d => d.id === dayId)));
+        } else {
+            if (source.itemId === beforeItemId) return;
+            record(`'${itemName(source.itemId)}' → ${dayNumber(dayId)} 이동`);
+            rearrangeDays(currentDays => moveItem(currentDays, source.itemId, dayId, beforeItemId));
+        }
+    };
+
     const openProductSelector = async (dayId: string) => {
-        if (!quoteInfo.cityId) return;
+        const cityId = days.find(d => d.id === dayId)?.cityId;
+        if (!cityId) return;
 
         setActiveDayId(dayId);
         setIsProductModalOpen(true);
@@ -91,27 +440,12 @@ const QuotePage: React.FC = () => {
         setModalProducts({});
 
         try {
-            const cityRef = doc(db, 'Cities', quoteInfo.cityId);
+            const cityRef = doc(db, 'Cities', cityId);
             const productsQuery = query(collection(db, 'Products'), where('CityRef', '==', cityRef));
-            const productsPromise = getDocs(productsQuery);
-            const categoriesPromise = getDocs(collection(db, 'Categories'));
-
-            const [productSnapshot, categorySnapshot] = await Promise.all([productsPromise, categoriesPromise]);
-
-            const categoryMap = new Map<string, string>();
-            categorySnapshot.forEach(doc => {
-                categoryMap.set(doc.id, doc.data().CategoryName);
-            });
-
-            const enrichedProducts: Product[] = productSnapshot.docs.map(doc => {
-                const productData = doc.data() as Omit<Product, 'id'>;
-                const categoryId = (productData.CategoryRef as any)?.id;
-                return {
-                    id: doc.id,
-                    ...productData,
-                    CategoryName: categoryMap.get(categoryId) || '미분류'
-                };
-            });
+            const [productSnapshot, categoryMap] = await Promise.all([getDocs(productsQuery), loadCategoryMap()]);
+            const enrichedProducts: Product[] = productSnapshot.docs
+                .filter(doc => !doc.data().DeletedAt)
+                .map(doc => toQuoteProduct(doc, categoryMap));
             
             const grouped = enrichedProducts.reduce((acc, product) => {
                 const categoryName = product.CategoryName || '미분류';
@@ -133,30 +467,24 @@ const QuotePage: React.FC = () => {
     };
     
     const addProductToDay = (product: Product) => {
-        let initialQuantity = 1;
-        let initialAppliedPrice = 0;
-    
-        if (product.PricingType === 'PerPerson') {
-            const totalPax = quoteInfo.pax.adults + quoteInfo.pax.children + quoteInfo.pax.infants;
-            initialQuantity = totalPax > 0 ? totalPax : 1;
-            const totalPrice =
-                (quoteInfo.pax.adults * (product.Price_Adult || 0)) +
-                (quoteInfo.pax.children * (product.Price_Child || 0)) +
-                (quoteInfo.pax.infants * (product.Price_Infant || 0));
-            initialAppliedPrice = totalPax > 0 ? Math.round(totalPrice / totalPax) : 0;
-        } else { // PerUnit
-            initialQuantity = 1;
-            initialAppliedPrice = product.Price_Unit || 0;
+        const productCurrency = product.Currency || BASE_CURRENCY;
+        const exchangeRate = getConversionRate(exchangeRates, productCurrency, quoteCurrency, rateDate, quoteInfo.exchangeBufferPercent);
+        if (exchangeRate === null) {
+            alert(`${productCurrency} → ${quoteCurrency} 환율이 등록되어 있지 않습니다. 관리자 패널의 환율 탭에서 먼저 환율을 입력해 주세요.`);
+            return;
         }
 
-        const newQuoteItem: QuoteItem = {
+        // Seasonal rates are matched against the calendar date of the day being edited.
+        const dayDate = getDayDate(quoteInfo.departureDate, days.findIndex(d => d.id === activeDayId));
+        const newQuoteItem: QuoteItem = priceItemFromCatalog({
             id: crypto.randomUUID(),
             product: product,
-            quantity: initialQuantity,
-            appliedPrice: initialAppliedPrice,
+            quantity: 1,
+            appliedPrice: 0,
             total: 0, // Will be recalculated
-        };
+        }, quoteInfo.pax, dayDate, exchangeRate, quoteInfo.markupPercent, quoteCurrency);
         
+        record(`${dayNumber(activeDayId || '')}에 '${product.ProductName}' 추가`);
         setDays(currentDays => {
             const intermediateDays = currentDays.map(d => {
                 if (d.id === activeDayId) {
@@ -173,13 +501,17 @@ const QuotePage: React.FC = () => {
         setActiveDayId(null);
     };
     
-    const updateQuoteItem = (dayId: string, itemId: string, field: 'quantity' | 'appliedPrice', value: number) => {
+    const updateQuoteItem = (dayId: string, itemId: string, field: 'quantity' | 'appliedPrice' | 'markupPercent', value: number | undefined) => {
+        record(`'${itemName(itemId)}' ${ITEM_FIELD_LABELS[field]} 변경`, `item:${itemId}:${field}`);
         setDays(currentDays => {
             const intermediateDays = currentDays.map(day => {
                 if (day.id === dayId) {
                     const updatedItems = day.items.map(item => {
                         if (item.id === itemId) {
-                            return { ...item, [field]: value };
+                            if (field === 'markupPercent') {
+                                return repriceItemWithMarkup({ ...item, markupPercent: value }, quoteInfo.markupPercent, quoteCurrency);
+                            }
+                            return { ...item, [field]: value, overridden: true };
                         }
                         return item;
                     });
@@ -193,7 +525,190 @@ const QuotePage: React.FC = () => {
         });
     };
 
+    const updatePaxLine = (dayId: string, itemId: string, paxType: PaxType, field: 'quantity' | 'unitPrice', value: number) => {
+        record(`'${itemName(itemId)}' ${PAX_TYPE_LABELS[paxType]} ${field === 'quantity' ? '인원' : '단가'} 변경`, `item:${itemId}:${paxType}:${field}`);
+        setDays(currentDays => {
+            const intermediateDays = currentDays.map(day => {
+                if (day.id !== dayId) return day;
+                return {
+                    ...day,
+                    items: day.items.map(item => {
+                        if (item.id !== itemId || !item.paxLines) return item;
+                        return {
+                            ...item,
+                            paxLines: item.paxLines.map(line => line.paxType === paxType ? { ...line, [field]: value } : line),
+                            overridden: true,
+                        };
+                    }),
+                };
+            });
+            const { newDays, newGrandTotal } = recalculateQuote(intermediateDays);
+            setGrandTotal(newGrandTotal);
+            return newDays;
+        });
+    };
+
+    // Drops manual edits and prices the item from the catalog again at today's exchange rate.
+    // `product` replaces the item's stored copy of the product, e.g. after a catalog price change.
+    const resetItemToCatalog = (dayId: string, itemId: string, product?: Product) => {
+        const dayIndex = days.findIndex(d => d.id === dayId);
+        const storedItem = days[dayIndex]?.items.find(i => i.id === itemId);
+        if (!storedItem) return;
+        const item = product ? { ...storedItem, product } : storedItem;
+        const productCurrency = item.product.Currency || BASE_CURRENCY;
+        const currentRate = getConversionRate(exchangeRates, productCurrency, quoteCurrency, rateDate, quoteInfo.exchangeBufferPercent);
+        if (currentRate === null && productCurrency !== (storedItem.product.Currency || BASE_CURRENCY)) {
+            alert(`${productCurrency} → ${quoteCurrency} 환율이 등록되어 있지 않습니다. 관리자 패널의 환율 탭에서 먼저 환율을 입력해 주세요.`);
+            return;
+        }
+        const exchangeRate = currentRate ?? item.exchangeRate ?? 1;
+        const resetItem = priceItemFromCatalog(item, quoteInfo.pax, getDayDate(quoteInfo.departureDate, dayIndex), exchangeRate, quoteInfo.markupPercent, quoteCurrency);
+        record(product ? `'${item.product.ProductName}' 최신 카탈로그 가격 적용` : `'${item.product.ProductName}' 카탈로그 가격으로 되돌림`);
+        if (product) {
+            setCatalogIssues(({ [itemId]: _, ...rest }) => rest);
+        }
+
+        setDays(currentDays => {
+            const intermediateDays = currentDays.map(day => day.id !== dayId ? day : {
+                ...day,
+                items: day.items.map(i => i.id === itemId ? resetItem : i),
+            });
+            const { newDays, newGrandTotal } = recalculateQuote(intermediateDays);
+            setGrandTotal(newGrandTotal);
+            return newDays;
+        });
+    };
+
+    const handleQuoteMarkupChange = (markupPercent: number | undefined) => {
+        record('견적 마크업 변경', 'info:markupPercent');
+        setQuoteInfo(prev => ({ ...prev, markupPercent }));
+        setDays(currentDays => {
+            const intermediateDays = currentDays.map(day => ({
+                ...day,
+                items: day.items.map(item => repriceItemWithMarkup(item, markupPercent, quoteCurrency)),
+            }));
+            const { newDays, newGrandTotal } = recalculateQuote(intermediateDays);
+            setGrandTotal(newGrandTotal);
+            return newDays;
+        });
+    };
+
+    // Re-converts every item when the quote currency or FX buffer changes. Items are
+    // scaled by the ratio of new to old rate, so hand-edited prices are preserved.
+    const handleCurrencySettingsChange = (changes: Pick<QuoteInfo, 'currency' | 'exchangeBufferPercent'>) => {
+        const nextInfo = { ...quoteInfo, ...changes };
+        const nextCurrency = nextInfo.currency || BASE_CURRENCY;
+
+        const missingCurrencies = new Set<string>();
+        const convertedDays = days.map(day => ({
+            ...day,
+            items: day.items.map(item => {
+                const productCurrency = item.product.Currency || BASE_CURRENCY;
+                const newRate = getConversionRate(exchangeRates, productCurrency, nextCurrency, rateDate, nextInfo.exchangeBufferPercent);
+                if (newRate === null) {
+                    missingCurrencies.add(productCurrency);
+                    return item;
+                }
+                const factor = newRate / (item.exchangeRate || 1);
+                return {
+                    ...item,
+                    appliedPrice: roundMoney(item.appliedPrice * factor, nextCurrency),
+                    costPrice: item.costPrice !== undefined ? roundMoney(item.costPrice * factor, nextCurrency) : undefined,
+                    paxLines: item.paxLines?.map(line => ({
+                        ...line,
+                        unitPrice: roundMoney(line.unitPrice * factor, nextCurrency),
+                        costPrice: line.costPrice !== undefined ? roundMoney(line.costPrice * factor, nextCurrency) : undefined,
+                    })),
+                    exchangeRate: newRate,
+                };
+            }),
+        }));
+
+        // Fixed adjustments are amounts in the quote currency, so they follow it without the buffer.
+        const adjustmentRate = getConversionRate(exchangeRates, quoteCurrency, nextCurrency, rateDate);
+        if (adjustmentRate === null && adjustments.some(a => a.valueType === 'fixed')) {
+            missingCurrencies.add(quoteCurrency);
+        }
+
+        if (missingCurrencies.size > 0) {
+            alert(`다음 통화의 ${nextCurrency} 환율이 등록되어 있지 않아 변경할 수 없습니다: ${[...missingCurrencies].join(', ')}`);
+            return;
+        }
+
+        record('통화 설정 변경', 'info:currency');
+        const { newDays, newGrandTotal } = recalculateQuote(convertedDays);
+        setQuoteInfo(nextInfo);
+        setDays(newDays);
+        setGrandTotal(newGrandTotal);
+        setAdjustments(current => current.map(adjustment => adjustment.valueType === 'fixed'
+            ? { ...adjustment, value: roundMoney(adjustment.value * (adjustmentRate ?? 1), nextCurrency) }
+            : adjustment));
+    };
+
+    // Adds the template's days after the current ones, priced from the current catalog for
+    // the current pax. A fresh quote's single empty day is replaced rather than kept.
+    const insertPackageTemplate = async (template: PackageTemplate) => {
+        const products = await loadTemplateProducts(template);
+        const replaceEmptyDay = days.length === 1 && days[0].items.length === 0 && !days[0].cityId;
+        const startIndex = replaceEmptyDay ? 0 : days.length;
+
+        const missingCurrencies = new Set<string>();
+        let skippedItems = 0;
+        const templateDays = template.Days.map((templateDay, offset) => {
+            const dayDate = getDayDate(quoteInfo.departureDate, startIndex + offset);
+            const countryId = templateDay.CountryRef?.id || '';
+            const cityId = templateDay.CityRef?.id || '';
+            const items = templateDay.Items.flatMap(templateItem => {
+                const product = products.get(templateItem.ProductRef.id);
+                if (!product) {
+                    skippedItems += 1;
+                    return [];
+                }
+                const productCurrency = product.Currency || BASE_CURRENCY;
+                const exchangeRate = getConversionRate(exchangeRates, productCurrency, quoteCurrency, rateDate, quoteInfo.exchangeBufferPercent);
+                if (exchangeRate === null) {
+                    missingCurrencies.add(productCurrency);
+                    return [];
+                }
+                return [priceItemFromCatalog({
+                    id: crypto.randomUUID(),
+                    product,
+                    quantity: templateItem.Quantity ?? 1,
+                    appliedPrice: 0,
+                    total: 0, // Will be recalculated
+                }, quoteInfo.pax, dayDate, exchangeRate, quoteInfo.markupPercent, quoteCurrency)];
+            });
+            return {
+                ...createEmptyDay({
+                    countryId,
+                    cityId,
+                    countryName: countries.find(c => c.id === countryId)?.CountryName,
+                    cityName: allCities.find(c => c.id === cityId)?.CityName ?? templateDay.CityName,
+                }),
+                items,
+            };
+        });
+
+        if (missingCurrencies.size > 0) {
+            alert(`다음 통화의 ${quoteCurrency} 환율이 등록되어 있지 않아 패키지를 추가할 수 없습니다: ${[...missingCurrencies].join(', ')}`);
+            return;
+        }
+
+        record(`패키지 '${template.TemplateName}' 추가`);
+        setDays(currentDays => {
+            const intermediateDays = replaceEmptyDay ? templateDays : [...currentDays, ...templateDays];
+            const { newDays, newGrandTotal } = recalculateQuote(intermediateDays);
+            setGrandTotal(newGrandTotal);
+            return newDays;
+        });
+        setIsTemplatePickerOpen(false);
+        if (skippedItems > 0) {
+            alert(`삭제되었거나 찾을 수 없는 상품 ${skippedItems}개는 제외하고 추가했습니다.`);
+        }
+    };
+
     const removeQuoteItem = (dayId: string, itemId: string) => {
+        record(`${dayNumber(dayId)} '${itemName(itemId)}' 삭제`);
         setDays(currentDays => {
             const intermediateDays = currentDays.map(day => {
                 if (day.id === dayId) {
@@ -207,7 +722,42 @@ const QuotePage: React.FC = () => {
         });
     }
 
-    const fullQuote: Quote = { info: quoteInfo, days, grandTotal };
+    // Days loaded from older quotes only have location IDs, so names are filled in from the catalog.
+    const namedDays = days.map(day => ({
+        ...day,
+        countryName: countries.find(c => c.id === day.countryId)?.CountryName ?? day.countryName,
+        cityName: allCities.find(c => c.id === day.cityId)?.CityName ?? day.cityName,
+    }));
+    const totals = calculateQuoteTotals(quoteInfo, days, adjustments);
+    const perPersonPrices = calculatePerPersonPrices(quoteInfo, days, totals);
+    const priceTiers = useMemo(
+        () => buildPriceTiers(quoteInfo, days, adjustments, quoteInfo.priceTierSizes || []),
+        [quoteInfo, days, adjustments]
+    );
+    const fullQuote: Quote = {
+        info: { ...quoteInfo, countryId: days[0]?.countryId || '', cityId: days[0]?.cityId || '' },
+        days: namedDays,
+        adjustments,
+        grandTotal: totals.total,
+        priceTiers: quoteInfo.includePriceTiers && priceTiers.length > 0 ? priceTiers : undefined,
+    };
+    const daysUntilDeparture = quoteInfo.departureDate ? daysBetween(rateDate, quoteInfo.departureDate) : null;
+    const daysUntilExpiry = quoteInfo.validUntil ? daysBetween(rateDate, quoteInfo.validUntil) : null;
+    // Discounts and surcharges change the revenue; tax does not.
+    const quoteMargin = summarizeMargin(summarizeQuoteMargin(days).cost, totals.total - totals.taxAmount);
+    const destination = namedDays.some(day => day.cityId) ? formatRouteSummary(namedDays) : '';
+
+    // Written on every change, so a refresh or leaving the builder loses nothing.
+    useEffect(() => {
+        if (!hasUnsavedChangesRef.current) return;
+        saveDraft({
+            id: draftIdRef.current,
+            name: [quoteInfo.customerName.trim() || '고객명 미입력', destination].filter(Boolean).join(' · '),
+            quoteId: loadedQuoteIdRef.current,
+            quote: fullQuote,
+        });
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [quoteInfo, days, adjustments]);
 
     const handleCopyToClipboard = () => {
         navigator.clipboard.writeText(generateTextQuote(fullQuote))
@@ -225,65 +775,211 @@ const QuotePage: React.FC = () => {
         alert('견적서가 CSV 파일로 다운로드됩니다.');
     };
 
+    const handleExportXlsx = async () => {
+        try {
+            await exportXlsxQuote(fullQuote);
+        } catch (err) {
+            console.error('엑셀 내보내기 실패:', err);
+            alert(`엑셀 파일 생성에 실패했습니다. (오류: ${(err as Error).message})`);
+        }
+    };
+
+    const handleSaveQuote = async () => {
+        setIsSaving(true);
+        try {
+            const savedId = await saveQuote(fullQuote, quoteId);
+            loadedQuoteIdRef.current = savedId;
+            onQuoteIdChange(savedId);
+            deleteDraft(draftIdRef.current);
+            hasUnsavedChangesRef.current = false;
+            alert('견적이 저장되었습니다.');
+        } catch (err) {
+            console.error('견적 저장 실패:', err);
+            alert(`견적 저장에 실패했습니다. (오류: ${(err as Error).message})`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRestoreRevision = async (revision: QuoteRevision) => {
+        if (!quoteId) return;
+        try {
+            const restored = await restoreQuoteRevision(quoteId, revision);
+            applyQuote(restored);
+            alert(`v${revision.Version}이(가) 현재 견적으로 복원되었습니다.`);
+        } catch (err) {
+            console.error('버전 복원 실패:', err);
+            alert(`버전 복원에 실패했습니다. (오류: ${(err as Error).message})`);
+        }
+    };
+
+    const handleNewQuote = () => {
+        if (!window.confirm('작성 중인 견적을 닫고 새 견적을 시작하시겠습니까? 저장하지 않은 변경 사항은 사라집니다.')) return;
+        loadedQuoteIdRef.current = null;
+        onQuoteIdChange(null);
+        resetQuote();
+    };
+
+    if (isLoadingQuote) {
+        return <p className="text-center text-gray-500 py-12">견적을 불러오는 중...</p>;
+    }
+
     return (
       <div className="space-y-8">
+        {recoverableDraft && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex flex-wrap justify-between items-center gap-3">
+                <p className="text-sm text-amber-900">
+                    저장하지 않은 견적 초안이 있습니다: <span className="font-semibold">{recoverableDraft.name}</span>
+                    {` (${new Date(recoverableDraft.savedAt).toLocaleString('ko-KR')})`}
+                </p>
+                <div className="flex gap-2">
+                    <Button size="sm" onClick={() => recoverDraft(recoverableDraft)}>복구</Button>
+                    <Button size="sm" variant="secondary" onClick={() => { setRecoverableDraft(null); setIsDraftsModalOpen(true); }}>초안 목록</Button>
+                    <Button size="sm" variant="secondary" onClick={() => setRecoverableDraft(null)}>닫기</Button>
+                </div>
+            </div>
+        )}
+
         <div className="p-6 bg-white rounded-lg shadow-md">
-            <h2 className="text-xl font-bold mb-4">1. 기본 정보</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold">1. 기본 정보</h2>
+                <div className="flex items-center gap-3">
+                    <span className="text-sm text-gray-500">{quoteId ? '저장된 견적 편집 중' : '새 견적 (저장되지 않음)'}</span>
+                    {quoteId && <Button size="sm" variant="secondary" onClick={() => setIsRevisionsModalOpen(true)}>버전 기록</Button>}
+                    {quoteId && canEdit && <Button size="sm" variant="secondary" onClick={() => setIsShareModalOpen(true)}>고객 공유</Button>}
+                    <Button size="sm" variant="secondary" onClick={() => setIsDraftsModalOpen(true)}>임시 저장 초안</Button>
+                    <Button size="sm" variant="secondary" onClick={handleNewQuote}>새 견적</Button>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <Input label="고객명" id="customer-name" value={quoteInfo.customerName} onChange={e => handleInfoChange('customerName', e.target.value)} />
-                <Select label="국가" id="country" value={quoteInfo.countryId} onChange={e => handleInfoChange('countryId', e.target.value)}>
-                    <option value="">국가 선택</option>
-                    {countries.map(c => <option key={c.id} value={c.id}>{c.CountryName}</option>)}
-                </Select>
-                <Select label="도시" id="city" value={quoteInfo.cityId} onChange={e => handleInfoChange('cityId', e.target.value)} disabled={!quoteInfo.countryId}>
-                    <option value="">도시 선택</option>
-                    {availableCities.map(c => <option key={c.id} value={c.id}>{c.CityName}</option>)}
-                </Select>
+                <Input label="출발일" id="departure-date" type="date" value={quoteInfo.departureDate || ''} onChange={e => handleInfoChange('departureDate', e.target.value || undefined)} />
+                <Input label="견적 유효기간" id="valid-until" type="date" value={quoteInfo.validUntil || ''} onChange={e => handleInfoChange('validUntil', e.target.value || undefined)} />
             </div>
+            {(daysUntilDeparture !== null || daysUntilExpiry !== null) && (
+                <div className="flex flex-wrap gap-2 mt-3 text-sm">
+                    {daysUntilDeparture !== null && (
+                        <span className={`px-2 py-0.5 rounded font-semibold ${daysUntilDeparture < 0 ? 'bg-gray-200 text-gray-700' : 'bg-blue-100 text-blue-800'}`}>
+                            {formatDaysUntilDeparture(daysUntilDeparture)}
+                        </span>
+                    )}
+                    {daysUntilExpiry !== null && (
+                        <span className={`px-2 py-0.5 rounded font-semibold ${daysUntilExpiry < 0 ? 'bg-red-100 text-red-800' : daysUntilExpiry <= 3 ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'}`}>
+                            {daysUntilExpiry < 0 ? `유효기간 만료 (${quoteInfo.validUntil})` : `유효기간 ${daysUntilExpiry}일 남음`}
+                        </span>
+                    )}
+                </div>
+            )}
             <div className="grid grid-cols-3 gap-4 mt-4">
                 <Input label="성인" id="pax-adults" type="number" min="0" value={quoteInfo.pax.adults} onChange={e => handleInfoChange('pax', { adults: parseInt(e.target.value) || 0 })} />
                 <Input label="아동" id="pax-children" type="number" min="0" value={quoteInfo.pax.children} onChange={e => handleInfoChange('pax', { children: parseInt(e.target.value) || 0 })} />
                 <Input label="유아" id="pax-infants" type="number" min="0" value={quoteInfo.pax.infants} onChange={e => handleInfoChange('pax', { infants: parseInt(e.target.value) || 0 })} />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4 items-end">
+                <Select label="견적 통화" id="quote-currency" value={quoteCurrency} onChange={e => handleCurrencySettingsChange({ currency: e.target.value as CurrencyCode })}>
+                    {CURRENCIES.map(c => <option key={c.code} value={c.code}>{`${c.code} (${c.name})`}</option>)}
+                </Select>
+                <Input
+                    label="환율 버퍼 (%)"
+                    id="exchange-buffer"
+                    type="number"
+                    min="0"
+                    value={quoteInfo.exchangeBufferPercent ?? 0}
+                    onChange={e => handleCurrencySettingsChange({ exchangeBufferPercent: parseFloat(e.target.value) || 0 })}
+                />
+                <Input
+                    label="견적 마크업 (%, 내부용)"
+                    id="quote-markup"
+                    type="number"
+                    placeholder="비워두면 카테고리 기본값 적용"
+                    value={quoteInfo.markupPercent ?? ''}
+                    onChange={e => handleQuoteMarkupChange(parseOptionalNumber(e.target.value))}
+                />
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={showMargin} onChange={e => setShowMargin(e.target.checked)} />
+                    원가 / 마진 표시 (내부용)
+                </label>
+            </div>
         </div>
 
         <div className="p-6 bg-white rounded-lg shadow-md">
-            <h2 className="text-xl font-bold mb-4">2. 일정</h2>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h2 className="text-xl font-bold">2. 일정</h2>
+                <div className="flex flex-wrap items-center gap-3">
+                    {destination && <span className="text-sm text-gray-600">여정: {destination}</span>}
+                    <Button size="sm" variant="secondary" onClick={() => setIsTemplatePickerOpen(true)}>패키지 불러오기</Button>
+                    {canEdit && <Button size="sm" variant="secondary" onClick={() => setIsSaveTemplateOpen(true)}>패키지로 저장</Button>}
+                </div>
+            </div>
             <div className="space-y-6">
                 {days.map((day, index) => {
-                    const itemsByCategory = day.items.reduce((acc, item) => {
-                        const categoryName = item.product.CategoryName || '미분류';
-                        if (!acc[categoryName]) {
-                            acc[categoryName] = [];
-                        }
-                        acc[categoryName].push(item);
-                        return acc;
-                    }, {} as Record<string, QuoteItem[]>);
-
-                    const sortedCategories = Object.keys(itemsByCategory).sort((a, b) => {
-                        if (a === '미분류') return 1;
-                        if (b === '미분류') return -1;
-                        return a.localeCompare(b);
-                    });
+                    const categoryGroups = groupItemsByCategory(day.items);
 
                     return (
-                        <div key={day.id} className="border border-gray-200 p-4 rounded-md">
-                            <div className="flex justify-between items-center mb-3">
-                                <h3 className="font-bold text-lg">{index + 1}일차</h3>
-                                <Button size="sm" variant="danger" onClick={() => removeDay(day.id)} disabled={days.length <= 1}>일차 삭제</Button>
+                        <div
+                            key={day.id}
+                            className={`border p-4 rounded-md ${dropTargetDayId === day.id ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                            onDragOver={e => handleDayDragOver(e, day.id)}
+                            onDrop={e => handleDrop(e, day.id)}
+                        >
+                            <div className="flex flex-wrap justify-between items-end gap-3 mb-3">
+                                <div className="flex items-center gap-2">
+                                    <span
+                                        draggable
+                                        onDragStart={e => { e.dataTransfer.setData('text/plain', day.id); setDragSource({ type: 'day', dayId: day.id }); }}
+                                        onDragEnd={handleDragEnd}
+                                        className="cursor-move text-gray-400 hover:text-gray-600 select-none"
+                                        title="끌어서 일차 순서 변경"
+                                    >
+                                        ⠿
+                                    </span>
+                                    <h3 className="font-bold text-lg">{formatDayLabel(quoteInfo.departureDate, index)}</h3>
+                                    <div className="flex gap-1 text-xs">
+                                        <button onClick={() => insertDay(day.id, 'before')} className="text-blue-600 hover:underline">앞에 삽입</button>
+                                        <span className="text-gray-300">|</span>
+                                        <button onClick={() => insertDay(day.id, 'after')} className="text-blue-600 hover:underline">뒤에 삽입</button>
+                                        <span className="text-gray-300">|</span>
+                                        <button onClick={() => duplicateDay(day.id)} className="text-blue-600 hover:underline">복제</button>
+                                    </div>
+                                </div>
+                                <div className="flex items-end gap-2">
+                                    <Select label="국가" id={`day-country-${day.id}`} value={day.countryId || ''} onChange={e => updateDayLocation(day.id, e.target.value, '')}>
+                                        <option value="">국가 선택</option>
+                                        {countries.map(c => <option key={c.id} value={c.id}>{c.CountryName}</option>)}
+                                    </Select>
+                                    <Select label="도시" id={`day-city-${day.id}`} value={day.cityId || ''} onChange={e => updateDayLocation(day.id, day.countryId || '', e.target.value)} disabled={!day.countryId}>
+                                        <option value="">도시 선택</option>
+                                        {(citiesByCountry[day.countryId || ''] || []).map(c => <option key={c.id} value={c.id}>{c.CityName}</option>)}
+                                    </Select>
+                                    <Button size="sm" variant="danger" onClick={() => removeDay(day.id)} disabled={days.length <= 1}>일차 삭제</Button>
+                                </div>
                             </div>
                             
                             <div className="space-y-4">
                                 {day.items.length === 0 ? (
                                     <p className="text-sm text-gray-500 text-center py-4 bg-gray-50 rounded-md">추가된 상품이 없습니다.</p>
                                 ) : (
-                                    sortedCategories.map(categoryName => (
+                                    categoryGroups.map(({ categoryName, items }) => (
                                         <div key={categoryName}>
                                             <h4 className="font-semibold text-md text-blue-800 bg-blue-50 px-3 py-1.5 rounded-t-md">{categoryName}</h4>
                                             <div className="space-y-2 border border-t-0 border-gray-200 p-2 rounded-b-md">
-                                                {itemsByCategory[categoryName].map(item => (
-                                                   <div key={item.id} className="grid grid-cols-12 gap-2 items-center p-2 even:bg-white odd:bg-gray-50 rounded">
+                                                {items.map(item => (
+                                                   <div
+                                                       key={item.id}
+                                                       className={`grid grid-cols-12 gap-2 items-center p-2 even:bg-white odd:bg-gray-50 rounded ${dragSource?.type === 'item' && dragSource.itemId === item.id ? 'opacity-50' : ''}`}
+                                                       onDragOver={e => { if (dragSource?.type === 'item') handleDayDragOver(e, day.id); }}
+                                                       onDrop={e => { if (dragSource?.type === 'item') handleDrop(e, day.id, item.id); }}
+                                                   >
                                                        <div className="col-span-12 md:col-span-4 font-medium">
+                                                            <span
+                                                                draggable
+                                                                onDragStart={e => { e.dataTransfer.setData('text/plain', item.id); setDragSource({ type: 'item', itemId: item.id }); }}
+                                                                onDragEnd={handleDragEnd}
+                                                                className="cursor-move text-gray-400 hover:text-gray-600 select-none mr-2"
+                                                                title="끌어서 순서 변경 또는 다른 일차로 이동"
+                                                            >
+                                                                ⠿
+                                                            </span>
                                                             {item.product.ProductURL ? (
                                                                 <a href={item.product.ProductURL} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
                                                                     {item.product.ProductName}
@@ -291,22 +987,88 @@ const QuotePage: React.FC = () => {
                                                             ) : (
                                                                 item.product.ProductName
                                                             )}
+                                                            {item.pricePeriodName && (
+                                                                <span className="ml-2 px-1.5 py-0.5 rounded bg-purple-100 text-purple-800 text-xs font-normal">{item.pricePeriodName} 요금</span>
+                                                            )}
+                                                            {catalogIssues[item.id] === 'deleted' && (
+                                                                <p className="text-xs font-normal mt-1">
+                                                                    <span className="px-1.5 py-0.5 rounded bg-red-100 text-red-800" title="초안을 저장한 뒤 카탈로그에서 삭제되었습니다. 저장된 가격이 그대로 사용됩니다.">삭제된 상품</span>
+                                                                </p>
+                                                            )}
+                                                            {catalogIssues[item.id] === 'repriced' && catalogProducts.has(item.product.id) && (
+                                                                <p className="text-xs font-normal mt-1">
+                                                                    <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800" title="초안을 저장한 뒤 카탈로그 가격이 바뀌었습니다.">카탈로그 가격 변경됨</span>
+                                                                    <button onClick={() => resetItemToCatalog(day.id, item.id, catalogProducts.get(item.product.id))} className="ml-2 text-blue-600 hover:underline">최신 가격 적용</button>
+                                                                </p>
+                                                            )}
+                                                            {item.overridden && (
+                                                                <p className="text-xs font-normal mt-1">
+                                                                    <span className="px-1.5 py-0.5 rounded bg-orange-100 text-orange-800" title="인원을 바꿔도 자동으로 다시 계산되지 않습니다.">수동 수정됨</span>
+                                                                    <button onClick={() => resetItemToCatalog(day.id, item.id)} className="ml-2 text-blue-600 hover:underline">카탈로그 가격으로 되돌리기</button>
+                                                                </p>
+                                                            )}
+                                                            {(item.product.Currency || BASE_CURRENCY) !== quoteCurrency && item.exchangeRate && (
+                                                                <p className="text-xs text-gray-500 font-normal">
+                                                                    원 통화: {formatItemBreakdown(item, amount => formatCurrency(amount / item.exchangeRate!, item.product.Currency))} = {formatCurrency(item.total / item.exchangeRate, item.product.Currency)}
+                                                                    {` (환율 ${item.exchangeRate.toLocaleString('ko-KR', { maximumFractionDigits: 4 })})`}
+                                                                </p>
+                                                            )}
                                                        </div>
                                                        <div className="col-span-4 md:col-span-2 text-sm text-gray-600">{item.product.PricingType === 'PerPerson' ? '인당' : '단위당'}</div>
-                                                       <>
-                                                           <div className="col-span-4 md:col-span-2">
-                                                             <Input label="수량" type="number" min="1" value={item.quantity} onChange={(e) => updateQuoteItem(day.id, item.id, 'quantity', parseInt(e.target.value) || 1)} className="py-1" />
-                                                           </div>
-                                                           <div className="col-span-4 md:col-span-2">
-                                                             <Input label="적용가" type="number" min="0" value={item.appliedPrice} onChange={(e) => updateQuoteItem(day.id, item.id, 'appliedPrice', parseFloat(e.target.value) || 0)} className="py-1" />
+                                                       {item.paxLines ? (
+                                                           <div className="col-span-8 md:col-span-4 space-y-1">
+                                                               <div className="grid grid-cols-5 gap-1 text-sm font-medium text-gray-700">
+                                                                   <span />
+                                                                   <span className="col-span-2">인원</span>
+                                                                   <span className="col-span-2">단가</span>
+                                                               </div>
+                                                               {item.paxLines.map(line => (
+                                                                   <div key={line.paxType} className="grid grid-cols-5 gap-1 items-center">
+                                                                       <span className="text-sm text-gray-600">{PAX_TYPE_LABELS[line.paxType]}</span>
+                                                                       <div className="col-span-2">
+                                                                         <Input type="number" min="0" aria-label={`${PAX_TYPE_LABELS[line.paxType]} 인원`} value={line.quantity} onChange={(e) => updatePaxLine(day.id, item.id, line.paxType, 'quantity', parseInt(e.target.value) || 0)} className="py-1" />
+                                                                       </div>
+                                                                       <div className="col-span-2">
+                                                                         <Input type="number" min="0" aria-label={`${PAX_TYPE_LABELS[line.paxType]} 단가`} value={line.unitPrice} onChange={(e) => updatePaxLine(day.id, item.id, line.paxType, 'unitPrice', parseFloat(e.target.value) || 0)} className="py-1" />
+                                                                       </div>
+                                                                   </div>
+                                                               ))}
                                                            </div>
-                                                        </>
-                                                       <div className="col-span-10 md:col-span-3 font-semibold text-right">{formatCurrency(item.total)}</div>
+                                                       ) : (
+                                                           <>
+                                                               <div className="col-span-4 md:col-span-2">
+                                                                 <Input label="수량" type="number" min="1" value={item.quantity} onChange={(e) => updateQuoteItem(day.id, item.id, 'quantity', parseInt(e.target.value) || 1)} className="py-1" />
+                                                               </div>
+                                                               <div className="col-span-4 md:col-span-2">
+                                                                 <Input label="적용가" type="number" min="0" value={item.appliedPrice} onChange={(e) => updateQuoteItem(day.id, item.id, 'appliedPrice', parseFloat(e.target.value) || 0)} className="py-1" />
+                                                               </div>
+                                                           </>
+                                                       )}
+                                                       <div className="col-span-10 md:col-span-3 font-semibold text-right">{formatCurrency(item.total, quoteCurrency)}</div>
                                                        <div className="col-span-2 md:col-span-1 text-right">
                                                          <button onClick={() => removeQuoteItem(day.id, item.id)} className="text-red-500 hover:text-red-700">
                                                              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm4 0a1 1 0 012 0v6a1 1 0 11-2 0V8z" clipRule="evenodd" /></svg>
                                                          </button>
                                                        </div>
+                                                       {showMargin && (
+                                                           <div className="col-span-12 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-600 bg-amber-50 rounded px-2 py-1">
+                                                               <span>원가: {hasItemCost(item) ? `${formatCostBreakdown(item, quoteCurrency)} = ${formatCurrency(summarizeItemMargin(item).cost, quoteCurrency)}` : '미입력'}</span>
+                                                               <span>판매: {formatCurrency(item.total, quoteCurrency)}</span>
+                                                               <span className="font-semibold">마진: {formatMargin(summarizeItemMargin(item), quoteCurrency)}</span>
+                                                               <span className="flex items-center gap-1">
+                                                                   마크업
+                                                                   <input
+                                                                       type="number"
+                                                                       className="w-20 px-1 py-0.5 border border-gray-300 rounded"
+                                                                       placeholder={String(getEffectiveMarkupPercent({ ...item, markupPercent: undefined }, quoteInfo.markupPercent) ?? '-')}
+                                                                       value={item.markupPercent ?? ''}
+                                                                       onChange={e => updateQuoteItem(day.id, item.id, 'markupPercent', parseOptionalNumber(e.target.value))}
+                                                                       disabled={!hasItemCost(item)}
+                                                                   />
+                                                                   %
+                                                               </span>
+                                                           </div>
+                                                       )}
                                                    </div>
                                                ))}
                                             </div>
@@ -315,17 +1077,22 @@ const QuotePage: React.FC = () => {
                                 )}
                             </div>
                             
-                            <div className="text-right font-bold mt-3">일차 합계: {formatCurrency(day.dayTotal)}</div>
+                            <div className="text-right font-bold mt-3">일차 합계: {formatCurrency(day.dayTotal, quoteCurrency)}</div>
+                            {showMargin && (
+                                <div className="text-right text-sm text-gray-600">
+                                    원가 {formatCurrency(summarizeDayMargin(day).cost, quoteCurrency)} · 마진 {formatMargin(summarizeDayMargin(day), quoteCurrency)}
+                                </div>
+                            )}
                             <div className="relative inline-block mt-4 group">
                                 <Button
                                     size="sm"
                                     variant="secondary"
                                     onClick={() => openProductSelector(day.id)}
-                                    disabled={!quoteInfo.cityId}
+                                    disabled={!day.cityId}
                                 >
                                    + 상품 추가
                                 </Button>
-                                {!quoteInfo.cityId && (
+                                {!day.cityId && (
                                     <div
                                         className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 w-max whitespace-nowrap px-3 py-1.5 bg-gray-800 text-white text-xs font-semibold rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity duration-300 pointer-events-none z-20"
                                         role="tooltip"
@@ -344,16 +1111,71 @@ const QuotePage: React.FC = () => {
             <Button onClick={addDay} className="mt-6">+ 일차 추가</Button>
         </div>
 
+        <div className="p-6 bg-white rounded-lg shadow-md">
+            <h2 className="text-xl font-bold mb-4">3. 할인 · 세금 · 결제 조건</h2>
+            <QuoteAdjustmentsEditor
+                adjustments={adjustments}
+                onAdjustmentsChange={next => { record('할인 / 추가 요금 변경', 'adjustments'); setAdjustments(next); }}
+                info={quoteInfo}
+                onInfoChange={changes => { record('세금 / 결제 조건 변경', 'info:tax'); setQuoteInfo(prev => ({ ...prev, ...changes })); }}
+                days={namedDays}
+                totals={totals}
+                currency={quoteCurrency}
+            />
+        </div>
+
+        <div className="p-6 bg-white rounded-lg shadow-md">
+            <h2 className="text-xl font-bold mb-4">4. 인원별 요금</h2>
+            <PriceTierTable
+                sizes={quoteInfo.priceTierSizes || []}
+                onSizesChange={sizes => handleInfoChange('priceTierSizes', sizes)}
+                tiers={priceTiers}
+                currentGroupSize={quoteInfo.pax.adults + quoteInfo.pax.children}
+                includeInExports={!!quoteInfo.includePriceTiers}
+                onIncludeInExportsChange={include => handleInfoChange('includePriceTiers', include || undefined)}
+                currency={quoteCurrency}
+            />
+        </div>
+
         <div className="sticky bottom-0 z-10">
             <div className="p-4 bg-white rounded-t-lg shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)]">
                 <div className="flex justify-between items-center">
                     <div>
                         <span className="text-xl font-bold">총 합계: </span>
-                        <span className="text-2xl font-bold text-blue-600">{formatCurrency(grandTotal)}</span>
+                        <span className="text-2xl font-bold text-blue-600">{formatCurrency(totals.total, quoteCurrency)}</span>
+                        {totals.total !== grandTotal && (
+                            <p className="text-sm text-gray-600">
+                                소계 {formatCurrency(grandTotal, quoteCurrency)}
+                                {totals.taxAmount !== 0 && ` · ${quoteInfo.taxLabel || DEFAULT_TAX_LABEL} ${formatCurrency(totals.taxAmount, quoteCurrency)}`}
+                                {` · 조정 ${formatCurrency(totals.total - grandTotal - totals.taxAmount, quoteCurrency)}`}
+                            </p>
+                        )}
+                        {showMargin && (
+                            <p className="text-sm text-gray-600">
+                                원가 {formatCurrency(quoteMargin.cost, quoteCurrency)} · 마진 {formatMargin(quoteMargin, quoteCurrency)}
+                            </p>
+                        )}
+                    </div>
+                    <div className="text-sm border-l pl-4 mr-auto ml-4">
+                        <p className="font-semibold text-gray-700">1인 요금</p>
+                        {PAX_TYPES.filter(paxType => quoteInfo.pax[PAX_COUNT_FIELDS[paxType]] > 0).map(paxType => (
+                            <p key={paxType} className="text-gray-600">
+                                {PAX_TYPE_LABELS[paxType]} {formatCurrency(perPersonPrices[paxType], quoteCurrency)}
+                            </p>
+                        ))}
                     </div>
                     <div className="flex gap-2">
+                        <QuoteHistoryPanel
+                            undoLabels={history.undoEntries.map(entry => entry.label)}
+                            redoLabels={history.redoEntries.map(entry => entry.label)}
+                            onUndo={undo}
+                            onRedo={redo}
+                        />
+                        {canEdit && <Button onClick={handleSaveQuote} disabled={isSaving}>{isSaving ? '저장 중...' : '견적 저장'}</Button>}
                         <Button onClick={handleCopyToClipboard}>텍스트 복사</Button>
                         <Button onClick={handleExportCsv} variant="secondary">CSV로 내보내기</Button>
+                        <Button onClick={handleExportXlsx} variant="secondary">엑셀로 내보내기</Button>
+                        <Button onClick={() => setIsDocumentModalOpen(true)} variant="secondary">견적서 PDF</Button>
                     </div>
                 </div>
             </div>
@@ -370,6 +1192,61 @@ const QuotePage: React.FC = () => {
                 productsByCategory={modalProducts}
                 isLoading={isModalLoading}
                 error={modalError}
+                dayDate={getDayDate(quoteInfo.departureDate, days.findIndex(d => d.id === activeDayId))}
+            />
+        )}
+
+        {isDocumentModalOpen && (
+            <QuoteDocumentModal
+                isOpen={isDocumentModalOpen}
+                onClose={() => setIsDocumentModalOpen(false)}
+                quote={fullQuote}
+                destination={destination}
+                onTermsChange={terms => { record('약관 변경', 'info:terms'); setQuoteInfo(prev => ({ ...prev, terms })); }}
+            />
+        )}
+
+        {isTemplatePickerOpen && (
+            <PackageTemplatePickerModal
+                isOpen={isTemplatePickerOpen}
+                onClose={() => setIsTemplatePickerOpen(false)}
+                onInsert={insertPackageTemplate}
+            />
+        )}
+
+        {isSaveTemplateOpen && (
+            <SavePackageTemplateModal
+                isOpen={isSaveTemplateOpen}
+                onClose={() => setIsSaveTemplateOpen(false)}
+                days={namedDays}
+                departureDate={quoteInfo.departureDate}
+            />
+        )}
+
+        {isDraftsModalOpen && (
+            <QuoteDraftsModal
+                isOpen={isDraftsModalOpen}
+                onClose={() => setIsDraftsModalOpen(false)}
+                currentDraftId={draftIdRef.current}
+                onRecover={recoverDraft}
+            />
+        )}
+
+        {isShareModalOpen && quoteId && (
+            <ShareQuoteModal
+                isOpen={isShareModalOpen}
+                onClose={() => setIsShareModalOpen(false)}
+                quoteId={quoteId}
+                hasUnsavedChanges={hasUnsavedChangesRef.current}
+            />
+        )}
+
+        {isRevisionsModalOpen && quoteId && (
+            <QuoteRevisionsModal
+                isOpen={isRevisionsModalOpen}
+                onClose={() => setIsRevisionsModalOpen(false)}
+                quoteId={quoteId}
+                onRestore={canEdit ? handleRestoreRevision : undefined}
             />
         )}
       </div>
@@ -383,9 +1260,10 @@ interface ProductSelectorModalProps {
     productsByCategory: Record<string, Product[]>;
     isLoading: boolean;
     error: string | null;
+    dayDate?: string; // Date of the day products are added to, for seasonal rates
 }
 
-const ProductSelectorModal: React.FC<ProductSelectorModalProps> = ({ isOpen, onClose, onAddProduct, productsByCategory, isLoading, error }) => {
+const ProductSelectorModal: React.FC<ProductSelectorModalProps> = ({ isOpen, onClose, onAddProduct, productsByCategory, isLoading, error, dayDate }) => {
     
     const [searchTerm, setSearchTerm] = useState('');
 
@@ -457,12 +1335,7 @@ const ProductSelectorModal: React.FC<ProductSelectorModalProps> = ({ isOpen, onC
                                                     {product.ProductDescription && (
                                                       <p className="text-xs text-gray-600 mt-1">{product.ProductDescription}</p>
                                                     )}
-                                                    <p className="text-sm text-gray-500 mt-1">
-                                                        {product.PricingType === 'PerPerson'
-                                                            ? `성인: ${formatCurrency(product.Price_Adult || 0)} / 아동: ${formatCurrency(product.Price_Child || 0)} / 유아: ${formatCurrency(product.Price_Infant || 0)}`
-                                                            : `단위당 가격: ${formatCurrency(product.Price_Unit || 0)}`
-                                                        }
-                                                    </p>
+                                                    <p className="text-sm text-gray-500 mt-1">{formatProductPrices(product, dayDate)}</p>
                                                 </div>
                                                 <Button size="sm" onClick={() => onAddProduct(product)}>추가</Button>
                                             </li>
@@ -487,12 +1360,7 @@ const ProductSelectorModal: React.FC<ProductSelectorModalProps> = ({ isOpen, onC
                                                      {product.ProductDescription && (
                                                       <p className="text-xs text-gray-600 mt-1">{product.ProductDescription}</p>
                                                     )}
-                                                    <p className="text-sm text-gray-500 mt-1">
-                                                        {product.PricingType === 'PerPerson'
-                                                            ? `성인: ${formatCurrency(product.Price_Adult || 0)} / 아동: ${formatCurrency(product.Price_Child || 0)} / 유아: ${formatCurrency(product.Price_Infant || 0)}`
-                                                            : `단위당 가격: ${formatCurrency(product.Price_Unit || 0)}`
-                                                        }
-                                                    </p>
+                                                    <p className="text-sm text-gray-500 mt-1">{formatProductPrices(product, dayDate)}</p>
                                                 </div>
                                                 <Button size="sm" onClick={() => onAddProduct(product)}>추가</Button>
                                             </li>
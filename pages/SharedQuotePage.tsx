@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { CurrencyCode, CustomerResponseStatus, SharedQuote } from '../types';
+import { BASE_CURRENCY, formatMoney } from '../services/currencyService';
+import { groupItemsByCategory, formatDayHeading, formatTravelPeriod } from '../services/itineraryService';
+import { getItemPriceLines, PAX_TYPES, PAX_TYPE_LABELS } from '../services/quoteItemService';
+import { calculatePaymentSchedule, getPaymentScheduleLines, getTotalLines } from '../services/quoteTotalsService';
+import { loadSharedQuote, respondToSharedQuote } from '../services/shareService';
+import { COMPANY_NAME, DEFAULT_QUOTE_TERMS } from '../components/quote/QuoteDocument';
+import Button from '../components/ui/Button';
+
+const formatCurrency = (amount: number, currency?: CurrencyCode): string => {
+    return formatMoney(amount, currency);
+}
+
+interface SharedQuotePageProps {
+    token: string;
+}
+
+// Read-only customer view of a shared quote, opened from the link without signing in.
+// It only ever reads the customer copy in SharedQuotes.
+const SharedQuotePage: React.FC<SharedQuotePageProps> = ({ token }) => {
+    const [shared, setShared] = useState<SharedQuote | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState('');
+    const [isResponding, setIsResponding] = useState(false);
+    const [responseError, setResponseError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setIsLoading(true);
+        setError(null);
+        loadSharedQuote(token)
+            .then(loaded => {
+                if (!loaded) setError('견적을 찾을 수 없습니다. 링크가 만료되었거나 잘못되었을 수 있습니다.');
+                setShared(loaded);
+            })
+            .catch(err => {
+                console.error("Failed to load shared quote:", err);
+                setError('견적을 불러오는 데 실패했습니다. 링크가 만료되었거나 잘못되었을 수 있습니다.');
+            })
+            .finally(() => setIsLoading(false));
+    }, [token]);
+
+    const handleRespond = async (status: CustomerResponseStatus) => {
+        if (!shared) return;
+        if (status === 'changesRequested' && !message.trim()) {
+            setResponseError('변경을 원하시는 내용을 입력해 주세요.');
+            return;
+        }
+        setIsResponding(true);
+        setResponseError(null);
+        try {
+            await respondToSharedQuote(shared, status, message);
+            setShared(await loadSharedQuote(token));
+        } catch (err) {
+            console.error("Failed to send response:", err);
+            setResponseError(`전송에 실패했습니다. 잠시 후 다시 시도해 주세요. (오류: ${(err as Error).message})`);
+        } finally {
+            setIsResponding(false);
+        }
+    };
+
+    if (isLoading) {
+        return <p className="text-center text-gray-500 py-12">견적을 불러오는 중...</p>;
+    }
+
+    if (!shared || error) {
+        return <p className="text-center text-gray-500 py-12">{error}</p>;
+    }
+
+    const { info, days, grandTotal, Response: response } = shared;
+    const currency = info.currency || BASE_CURRENCY;
+    const terms = info.terms ?? DEFAULT_QUOTE_TERMS;
+    const breakdown = getTotalLines(shared).filter(line => !line.isTotal);
+    const payment = calculatePaymentSchedule(info, grandTotal);
+
+    return (
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="p-6 bg-white rounded-lg shadow-md">
+            <p className="font-bold text-blue-600">{COMPANY_NAME}</p>
+            <h1 className="text-2xl font-bold mt-2">{info.customerName || '고객'} 님 여행 견적</h1>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 mt-4 text-sm">
+                <div><dt className="inline text-gray-500">여행지: </dt><dd className="inline">{shared.Destination || '-'}</dd></div>
+                <div><dt className="inline text-gray-500">일정: </dt><dd className="inline">{formatTravelPeriod(info.departureDate, days.length)}</dd></div>
+                <div><dt className="inline text-gray-500">인원: </dt><dd className="inline">{`성인 ${info.pax.adults}명, 아동 ${info.pax.children}명, 유아 ${info.pax.infants}명`}</dd></div>
+                {info.validUntil && <div><dt className="inline text-gray-500">견적 유효기간: </dt><dd className="inline">{info.validUntil}까지</dd></div>}
+            </dl>
+        </div>
+
+        {days.map((day, index) => (
+            <div key={day.id} className="bg-white rounded-lg shadow-md overflow-hidden">
+                <h2 className="font-bold text-lg bg-blue-600 text-white px-4 py-2">{formatDayHeading(info.departureDate, day, index)}</h2>
+                {day.items.length === 0 ? (
+                    <p className="text-sm text-gray-500 px-4 py-4">자유 일정</p>
+                ) : (
+                    <div className="p-4 space-y-4">
+                        {groupItemsByCategory(day.items).map(({ categoryName, items }) => (
+                            <div key={categoryName}>
+                                <h3 className="font-semibold text-blue-800 bg-blue-50 px-3 py-1.5 rounded-md">{categoryName}</h3>
+                                <ul className="divide-y divide-gray-200">
+                                    {items.map(item => (
+                                        <li key={item.id} className="flex justify-between gap-4 px-3 py-3">
+                                            <div>
+                                                {item.product.ProductURL ? (
+                                                    <a href={item.product.ProductURL} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:underline">
+                                                        {item.product.ProductName}
+                                                    </a>
+                                                ) : (
+                                                    <p className="font-medium">{item.product.ProductName}</p>
+                                                )}
+                                                {item.product.ProductDescription && (
+                                                    <p className="text-sm text-gray-600 mt-1">{item.product.ProductDescription}</p>
+                                                )}
+                                                <p className="text-xs text-gray-500 mt-1">
+                                                    {getItemPriceLines(item)
+                                                        .map(line => `${line.label ? `${line.label} ` : ''}${formatCurrency(line.unitPrice, currency)} × ${line.quantity}`)
+                                                        .join(' + ')}
+                                                </p>
+                                            </div>
+                                            <p className="font-semibold whitespace-nowrap">{formatCurrency(item.total, currency)}</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))}
+                        <p className="text-right font-semibold">{index + 1}일차 소계: {formatCurrency(day.dayTotal, currency)}</p>
+                    </div>
+                )}
+            </div>
+        ))}
+
+        <div className="p-6 bg-white rounded-lg shadow-md space-y-4">
+            {breakdown.length > 0 && (
+                <table className="w-full text-sm">
+                    <tbody>
+                        {breakdown.map((line, index) => (
+                            <tr key={index} className="border-b border-gray-200">
+                                <td className="py-2 text-gray-600">{line.label}</td>
+                                <td className="py-2 text-right">{formatCurrency(line.amount, currency)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            <div className="flex justify-between items-center bg-blue-600 text-white px-4 py-3 rounded-md">
+                <span className="text-lg font-bold">총 견적 금액</span>
+                <span className="text-2xl font-bold">{formatCurrency(grandTotal, currency)}</span>
+            </div>
+            {payment && (
+                <div>
+                    <h3 className="font-bold mb-2">결제 일정</h3>
+                    <ul className="text-sm space-y-1">
+                        {getPaymentScheduleLines(info, payment).map((line, index) => (
+                            <li key={index} className="flex justify-between">
+                                <span className="text-gray-600">{line.label}</span>
+                                <span>{formatCurrency(line.amount, currency)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+            {shared.priceTiers && shared.priceTiers.length > 0 && (
+                <div className="overflow-x-auto">
+                    <h3 className="font-bold mb-2">인원별 1인 요금</h3>
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b border-gray-300">
+                                <th className="py-2 text-left">인원</th>
+                                {PAX_TYPES.map(paxType => <th key={paxType} className="py-2 text-right">{PAX_TYPE_LABELS[paxType]}</th>)}
+                                <th className="py-2 text-right">총액</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {shared.priceTiers.map(tier => (
+                                <tr key={tier.groupSize} className="border-b border-gray-200">
+                                    <td className="py-2">{tier.groupSize}명</td>
+                                    {PAX_TYPES.map(paxType => <td key={paxType} className="py-2 text-right">{formatCurrency(tier.perPerson[paxType], currency)}</td>)}
+                                    <td className="py-2 text-right">{formatCurrency(tier.total, currency)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {terms.trim() && (
+                <div>
+                    <h3 className="font-bold mb-2">약관 및 안내 사항</h3>
+                    <p className="text-xs text-gray-600 whitespace-pre-line leading-relaxed">{terms}</p>
+                </div>
+            )}
+        </div>
+
+        <div className="p-6 bg-white rounded-lg shadow-md">
+            {response ? (
+                <div className={`p-4 rounded-md ${response.Status === 'accepted' ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'}`}>
+                    <p className="font-semibold">
+                        {response.Status === 'accepted' ? '견적을 수락해 주셔서 감사합니다. 담당자가 곧 예약을 진행해 드립니다.' : '변경 요청이 전달되었습니다. 담당자가 수정된 견적으로 연락드리겠습니다.'}
+                    </p>
+                    {response.Message && <p className="text-sm mt-2 whitespace-pre-line">{response.Message}</p>}
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <h3 className="font-bold">견적에 대한 답변</h3>
+                    <textarea
+                        rows={3}
+                        className="block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+                        placeholder="요청 사항이나 변경을 원하시는 내용을 적어 주세요."
+                        aria-label="요청 사항"
+                        value={message}
+                        onChange={e => setMessage(e.target.value)}
+                    />
+                    {responseError && <p className="text-red-500 text-sm">{responseError}</p>}
+                    <div className="flex justify-end gap-2">
+                        <Button variant="secondary" onClick={() => handleRespond('changesRequested')} disabled={isResponding}>변경 요청</Button>
+                        <Button onClick={() => handleRespond('accepted')} disabled={isResponding}>{isResponding ? '전송 중...' : '견적 수락'}</Button>
+                    </div>
+                </div>
+            )}
+        </div>
+      </div>
+    );
+};
+
+export default SharedQuotePage;
@@ -0,0 +1,128 @@
+import { auth, db } from '../firebase';
+import {
+  collection,
+  doc,
+  getDocs,
+  writeBatch,
+  serverTimestamp,
+  DocumentReference,
+  DocumentData,
+  FieldValue,
+  Timestamp,
+  WriteBatch,
+} from 'firebase/firestore';
+import { AuditAction, AuditCascadeEntry, AuditFieldChange, AuditValue } from '../types';
+
+// Bookkeeping fields that change on every write and would only add noise to the diff.
+const IGNORED_FIELDS = ['id', 'LastModified'];
+
+// Cascade lists go into numbered chunk documents under their log or trash entry,
+// so the size of a cascade is not capped by Firestore's 1 MiB document limit.
+const CASCADE_CHUNK_SIZE = 500;
+
+export interface AuditEntryInput {
+  action: AuditAction;
+  collection: string;
+  documentId: string;
+  documentName: string;
+  before?: DocumentData | null;
+  after?: DocumentData | null;
+  cascadeDeleted?: AuditCascadeEntry[];
+}
+
+const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof DocumentReference) return value.path;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  // deleteField() removes the field; other sentinels are not used on catalog fields.
+  if (value instanceof FieldValue) return null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as AuditValue;
+};
+
+/**
+ * Lists the fields whose value differs between `before` and `after`. For updates only
+ * the fields being written are compared, matching updateDoc semantics; pass
+ * `replace` when the whole document is overwritten with set().
+ */
+export const diffAuditFields = (
+  before: DocumentData | null | undefined,
+  after: DocumentData | null | undefined,
+  replace = false
+): AuditFieldChange[] => {
+  const fields = after && before && !replace
+    ? Object.keys(after)
+    : [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])];
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .sort()
+    .map(field => ({
+      Field: field,
+      Before: toAuditValue(before?.[field]),
+      After: after ? toAuditValue(after[field]) : null,
+    }))
+    .filter(change => change.Before !== change.After);
+};
+
+/** Adds the chunk documents of a cascade list to `batch`, under `parent`'s `subcollection`. */
+export const setCascadeChunks = (batch: WriteBatch, parent: DocumentReference, subcollection: string, items: AuditCascadeEntry[]): void => {
+  for (let i = 0; i < items.length; i += CASCADE_CHUNK_SIZE) {
+    const chunkId = String(i / CASCADE_CHUNK_SIZE).padStart(4, '0');
+    batch.set(doc(parent, subcollection, chunkId), { Items: items.slice(i, i + CASCADE_CHUNK_SIZE) });
+  }
+};
+
+/** Reads a cascade list written by setCascadeChunks, in its original order. */
+export const loadCascadeChunks = async (parent: DocumentReference, subcollection: string): Promise<AuditCascadeEntry[]> => {
+  const snapshot = await getDocs(collection(parent, subcollection));
+  return [...snapshot.docs]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .flatMap(chunk => chunk.data().Items as AuditCascadeEntry[]);
+};
+
+export const loadAuditCascade = (logId: string): Promise<AuditCascadeEntry[]> =>
+  loadCascadeChunks(doc(db, 'AuditLogs', logId), 'CascadeDeleted');
+
+/** Adds an audit entry to `batch`, so it is committed atomically with the change it describes. */
+export const addAuditEntry = (batch: WriteBatch, input: AuditEntryInput, replace = false): void => {
+  const user = auth.currentUser;
+  const logRef = doc(collection(db, 'AuditLogs'));
+  const cascade = input.cascadeDeleted ?? [];
+  batch.set(logRef, {
+    Action: input.action,
+    Collection: input.collection,
+    DocumentId: input.documentId,
+    DocumentName: input.documentName,
+    ActorId: user?.uid ?? '',
+    ActorEmail: user?.email ?? '',
+    CreatedAt: serverTimestamp(),
+    Changes: diffAuditFields(input.before, input.after, replace),
+    ...(cascade.length > 0 ? { CascadeCount: cascade.length } : {}),
+  });
+  setCascadeChunks(batch, logRef, 'CascadeDeleted', cascade);
+};
+
+/** Creates a document and its audit entry. Returns the new document ID. */
+export const createDocWithAudit = async (collectionName: string, data: DocumentData, documentName: string): Promise<string> => {
+  const batch = writeBatch(db);
+  const ref = doc(collection(db, collectionName));
+  batch.set(ref, data);
+  addAuditEntry(batch, { action: 'create', collection: collectionName, documentId: ref.id, documentName, after: data });
+  await batch.commit();
+  return ref.id;
+};
+
+/** Updates a document and records which fields changed relative to `before`. */
+export const updateDocWithAudit = async (
+  collectionName: string,
+  documentId: string,
+  data: DocumentData,
+  before: DocumentData,
+  documentName: string
+): Promise<void> => {
+  const batch = writeBatch(db);
+  batch.update(doc(db, collectionName, documentId), data);
+  addAuditEntry(batch, { action: 'update', collection: collectionName, documentId, documentName, before, after: data });
+  await batch.commit();
+};
@@ -0,0 +1,87 @@
+import { auth, db } from '../firebase';
+import {
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  updateProfile,
+  reauthenticateWithCredential,
+  EmailAuthProvider,
+} from 'firebase/auth';
+import { doc, setDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
+import { UserRole } from '../types';
+
+// Ordered from least to most privileged; each role includes the ones before it.
+export const ROLES: { role: UserRole; label: string; description: string }[] = [
+  { role: 'pending', label: '승인 대기', description: '가입 후 소유자의 승인을 기다리는 중이며 아무 데이터도 볼 수 없습니다.' },
+  { role: 'viewer', label: '조회자', description: '견적과 상품을 조회만 할 수 있습니다.' },
+  { role: 'sales', label: '영업 담당', description: '견적을 작성하고 저장할 수 있습니다.' },
+  { role: 'catalogAdmin', label: '카탈로그 관리자', description: '관리자 패널에서 상품과 환율을 추가·수정할 수 있습니다.' },
+  { role: 'owner', label: '소유자', description: '삭제·복원과 사용자 권한 관리를 할 수 있습니다.' },
+];
+
+// Role given to newly registered accounts until an owner approves them. Quotes and the
+// catalog hold costs and customer details, so sign-up alone grants no access.
+export const DEFAULT_ROLE: UserRole = 'pending';
+
+export const getRoleLabel = (role: UserRole): string =>
+  ROLES.find(r => r.role === role)?.label ?? role;
+
+/** True when `role` is at least as privileged as `required`. Signed-out users have no role. */
+export const hasRole = (role: UserRole | null | undefined, required: UserRole): boolean => {
+  if (!role) return false;
+  const rank = (r: UserRole) => ROLES.findIndex(entry => entry.role === r);
+  return rank(role) >= rank(required);
+};
+
+export const signIn = async (email: string, password: string): Promise<void> => {
+  await signInWithEmailAndPassword(auth, email, password);
+};
+
+/** Creates an account and its 'Users' profile with the default (unapproved) role. */
+export const signUp = async (email: string, password: string, displayName: string): Promise<void> => {
+  const { user } = await createUserWithEmailAndPassword(auth, email, password);
+  if (displayName) await updateProfile(user, { displayName });
+  await setDoc(doc(db, 'Users', user.uid), {
+    Email: email,
+    DisplayName: displayName,
+    Role: DEFAULT_ROLE,
+    CreatedAt: serverTimestamp(),
+  });
+};
+
+export const signOut = (): Promise<void> => firebaseSignOut(auth);
+
+/**
+ * Asks Firebase to check the signed-in user's password again. Used to confirm
+ * destructive actions so an unattended session can't be used to wipe data.
+ */
+export const confirmPassword = async (password: string): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user || !user.email) throw new Error('로그인이 필요합니다.');
+  await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+};
+
+export const updateUserRole = async (userId: string, role: UserRole): Promise<void> => {
+  await updateDoc(doc(db, 'Users', userId), { Role: role, LastModified: serverTimestamp() });
+};
+
+/** Turns Firebase Auth error codes into messages for the sign-in and confirm forms. */
+export const getAuthErrorMessage = (error: unknown): string => {
+  const code = (error as { code?: string }).code;
+  switch (code) {
+    case 'auth/invalid-credential':
+    case 'auth/wrong-password':
+    case 'auth/user-not-found':
+      return '이메일 또는 비밀번호가 올바르지 않습니다.';
+    case 'auth/invalid-email':
+      return '이메일 형식이 올바르지 않습니다.';
+    case 'auth/email-already-in-use':
+      return '이미 가입된 이메일입니다.';
+    case 'auth/weak-password':
+      return '비밀번호는 6자 이상이어야 합니다.';
+    case 'auth/too-many-requests':
+      return '시도 횟수가 너무 많습니다. 잠시 후 다시 시도하세요.';
+    default:
+      return (error as Error).message;
+  }
+};
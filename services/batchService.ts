@@ -0,0 +1,26 @@
+import { db } from '../firebase';
+import { writeBatch, WriteBatch } from 'firebase/firestore';
+
+// One logical change; it may write more than one document (e.g. a document and its audit entry).
+export type WriteOp = (batch: WriteBatch) => void;
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Operations per batch. Each operation writes a document and its audit entry,
+// so 2 x 200 stays under Firestore's 500 writes per batch.
+export const OPS_PER_BATCH = 200;
+
+/**
+ * Commits operations in sequential batches, reporting progress after each one.
+ * Batches that already committed stay committed if a later one fails, so callers
+ * must make their operations safe to re-run.
+ */
+export const commitInChunks = async (ops: WriteOp[], onProgress?: ProgressCallback, opsPerBatch = OPS_PER_BATCH): Promise<void> => {
+  onProgress?.(0, ops.length);
+  for (let i = 0; i < ops.length; i += opsPerBatch) {
+    const batch = writeBatch(db);
+    ops.slice(i, i + opsPerBatch).forEach(op => op(batch));
+    await batch.commit();
+    onProgress?.(Math.min(i + opsPerBatch, ops.length), ops.length);
+  }
+};
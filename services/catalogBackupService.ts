@@ -0,0 +1,330 @@
+import { db } from '../firebase';
+import { collection, doc, getDocs, DocumentReference, DocumentData, QuerySnapshot, Timestamp } from 'firebase/firestore';
+import { addAuditEntry } from './auditService';
+import { commitInChunks, WriteOp, ProgressCallback } from './batchService';
+import { moveToTrash } from './trashService';
+
+// Identifies catalog backup files. Bump the version when the file layout changes
+// and keep parseCatalogBackup able to read the older versions.
+export const CATALOG_BACKUP_FORMAT = 'tour-quote-catalog';
+export const CATALOG_BACKUP_VERSION = 1;
+
+export type CatalogCollection = 'Countries' | 'Cities' | 'Categories' | 'Products';
+
+// Written in this order so every reference points at a document restored before it.
+const COLLECTIONS: CatalogCollection[] = ['Countries', 'Cities', 'Categories', 'Products'];
+
+// Reference fields are stored as plain document IDs in the file (e.g. CityRef -> CityId).
+const REFERENCE_FIELDS: Record<CatalogCollection, { field: string; idField: string; target: CatalogCollection }[]> = {
+  Countries: [],
+  Cities: [{ field: 'CountryRef', idField: 'CountryId', target: 'Countries' }],
+  Categories: [],
+  Products: [
+    { field: 'CityRef', idField: 'CityId', target: 'Cities' },
+    { field: 'CategoryRef', idField: 'CategoryId', target: 'Categories' },
+  ],
+};
+
+export const NAME_FIELDS: Record<CatalogCollection, string> = {
+  Countries: 'CountryName',
+  Cities: 'CityName',
+  Categories: 'CategoryName',
+  Products: 'ProductName',
+};
+
+export const COLLECTION_LABELS: Record<CatalogCollection, string> = {
+  Countries: '국가',
+  Cities: '도시',
+  Categories: '카테고리',
+  Products: '상품',
+};
+
+// A document as stored in the backup file. Timestamps are written as { $timestamp: ISO string }.
+export type BackupRecord = { id: string } & Record<string, unknown>;
+
+export interface CatalogBackup {
+  format: typeof CATALOG_BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  collections: Record<CatalogCollection, BackupRecord[]>;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface CollectionRestorePlan {
+  create: BackupRecord[];
+  update: BackupRecord[];
+  unchanged: number;
+  remove: string[]; // IDs moved to the trash in replace mode
+  skipped: BackupRecord[]; // Records whose ID, or a referenced parent's, is in the trash
+  previous: Record<string, BackupRecord>; // Current version of updated and removed documents, for the audit log
+}
+
+export type CatalogRestorePlan = Record<CatalogCollection, CollectionRestorePlan>;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+const encodeValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return { $timestamp: value.toDate().toISOString() };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, encodeValue(v)]));
+  }
+  return value;
+};
+
+const decodeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (isPlainObject(value)) {
+    if (typeof value.$timestamp === 'string' && Object.keys(value).length === 1) {
+      return Timestamp.fromDate(new Date(value.$timestamp));
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, decodeValue(v)]));
+  }
+  return value;
+};
+
+const toBackupRecord = (collectionName: CatalogCollection, id: string, data: DocumentData): BackupRecord => {
+  const record: BackupRecord = { id };
+  const referenceFields = REFERENCE_FIELDS[collectionName];
+  Object.entries(data).forEach(([key, value]) => {
+    const reference = referenceFields.find(r => r.field === key);
+    if (reference) {
+      record[reference.idField] = (value as DocumentReference).id;
+    } else {
+      record[key] = encodeValue(value);
+    }
+  });
+  return record;
+};
+
+// Rebuilds the Firestore document data (references included) from a backup record.
+const toDocumentData = (collectionName: CatalogCollection, record: BackupRecord): DocumentData => {
+  const { id: _id, ...fields } = record;
+  const data: DocumentData = {};
+  const referenceFields = REFERENCE_FIELDS[collectionName];
+  Object.entries(fields).forEach(([key, value]) => {
+    const reference = referenceFields.find(r => r.idField === key);
+    if (reference) {
+      data[reference.field] = doc(db, reference.target, value as string);
+    } else {
+      data[key] = decodeValue(value);
+    }
+  });
+  return data;
+};
+
+const loadCatalogSnapshots = (): Promise<QuerySnapshot<DocumentData>[]> =>
+  Promise.all(COLLECTIONS.map(name => getDocs(collection(db, name))));
+
+// Trashed documents are left out: they are neither backed up nor touched by a restore,
+// and stay managed through their trash entries.
+const toLiveRecords = (snapshots: QuerySnapshot<DocumentData>[]): Record<CatalogCollection, BackupRecord[]> =>
+  Object.fromEntries(
+    COLLECTIONS.map((name, index) => [
+      name,
+      snapshots[index].docs.filter(d => !d.data().DeletedAt).map(d => toBackupRecord(name, d.id, d.data())),
+    ])
+  ) as Record<CatalogCollection, BackupRecord[]>;
+
+const loadCatalog = async (): Promise<Record<CatalogCollection, BackupRecord[]>> =>
+  toLiveRecords(await loadCatalogSnapshots());
+
+/** Reads all catalog collections and downloads them as a versioned JSON file. */
+export const exportCatalogBackup = async (): Promise<CatalogBackup> => {
+  const backup: CatalogBackup = {
+    format: CATALOG_BACKUP_FORMAT,
+    version: CATALOG_BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    collections: await loadCatalog(),
+  };
+
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', `catalog_backup_${backup.exportedAt.slice(0, 10)}.json`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+
+  return backup;
+};
+
+/**
+ * Parses and validates a backup file. Throws an Error listing the problems when the
+ * file is not a catalog backup, has duplicate IDs or contains references that do not
+ * resolve to a document inside the same file.
+ */
+export const parseCatalogBackup = (text: string): CatalogBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('JSON 형식이 아닌 파일입니다.');
+  }
+  if (!isPlainObject(raw) || raw.format !== CATALOG_BACKUP_FORMAT) {
+    throw new Error('카탈로그 백업 파일이 아닙니다.');
+  }
+  if (typeof raw.version !== 'number' || raw.version > CATALOG_BACKUP_VERSION) {
+    throw new Error(`지원하지 않는 백업 버전입니다: ${String(raw.version)}`);
+  }
+  if (!isPlainObject(raw.collections)) {
+    throw new Error('백업 파일에 컬렉션 데이터가 없습니다.');
+  }
+
+  const problems: string[] = [];
+  const collections = {} as Record<CatalogCollection, BackupRecord[]>;
+  const idsByCollection = {} as Record<CatalogCollection, Set<string>>;
+
+  COLLECTIONS.forEach(name => {
+    const records = (raw as { collections: Record<string, unknown> }).collections[name];
+    const ids = new Set<string>();
+    idsByCollection[name] = ids;
+    if (!Array.isArray(records)) {
+      problems.push(`${COLLECTION_LABELS[name]} 목록이 없습니다.`);
+      collections[name] = [];
+      return;
+    }
+    collections[name] = records.filter((record, index): record is BackupRecord => {
+      const label = `${COLLECTION_LABELS[name]} ${index + 1}번째 항목`;
+      if (!isPlainObject(record) || typeof record.id !== 'string' || record.id === '' || record.id.includes('/')) {
+        problems.push(`${label}: ID가 올바르지 않습니다.`);
+        return false;
+      }
+      if (ids.has(record.id)) {
+        problems.push(`${label}: 중복된 ID입니다 (${record.id}).`);
+        return false;
+      }
+      if (typeof record[NAME_FIELDS[name]] !== 'string') {
+        problems.push(`${label}: ${NAME_FIELDS[name]} 값이 없습니다.`);
+      }
+      ids.add(record.id);
+      return true;
+    });
+  });
+
+  COLLECTIONS.forEach(name => {
+    REFERENCE_FIELDS[name].forEach(reference => {
+      collections[name].forEach(record => {
+        const targetId = record[reference.idField];
+        if (typeof targetId !== 'string' || !idsByCollection[reference.target].has(targetId)) {
+          problems.push(`${COLLECTION_LABELS[name]} "${String(record[NAME_FIELDS[name]])}": ${reference.idField}(${String(targetId)})에 해당하는 ${COLLECTION_LABELS[reference.target]}이(가) 백업에 없습니다.`);
+        }
+      });
+    });
+  });
+
+  if (problems.length > 0) {
+    const shown = problems.slice(0, 10).join('\n');
+    throw new Error(problems.length > 10 ? `${shown}\n외 ${problems.length - 10}건` : shown);
+  }
+
+  return {
+    format: CATALOG_BACKUP_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+    collections,
+  };
+};
+
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Compares a backup with the live catalog without writing anything. Merge mode
+ * upserts by document ID and keeps documents missing from the file; replace mode
+ * additionally moves them to the trash. Records whose ID is in the trash are skipped,
+ * along with records referencing a skipped parent; they are restored from the trash tab.
+ */
+export const planCatalogRestore = async (backup: CatalogBackup, mode: RestoreMode): Promise<CatalogRestorePlan> => {
+  const snapshots = await loadCatalogSnapshots();
+  const current = toLiveRecords(snapshots);
+  const skippedIds = Object.fromEntries(COLLECTIONS.map((name, index) => [
+    name,
+    new Set(snapshots[index].docs.filter(d => d.data().DeletedAt).map(d => d.id)),
+  ])) as Record<CatalogCollection, Set<string>>;
+
+  // Parents come first in COLLECTIONS, so their skipped IDs are known before their children.
+  return Object.fromEntries(COLLECTIONS.map(name => {
+    const existing = new Map(current[name].map(record => [record.id, record]));
+    const plan: CollectionRestorePlan = { create: [], update: [], unchanged: 0, remove: [], skipped: [], previous: {} };
+    backup.collections[name].forEach(record => {
+      const hasSkippedParent = REFERENCE_FIELDS[name].some(reference => skippedIds[reference.target].has(record[reference.idField] as string));
+      if (skippedIds[name].has(record.id) || hasSkippedParent) {
+        skippedIds[name].add(record.id);
+        plan.skipped.push(record);
+        return;
+      }
+      const existingRecord = existing.get(record.id);
+      if (existingRecord === undefined) {
+        plan.create.push(record);
+      } else if (stableStringify(existingRecord) !== stableStringify(record)) {
+        plan.update.push(record);
+        plan.previous[record.id] = existingRecord;
+      } else {
+        plan.unchanged++;
+      }
+    });
+    if (mode === 'replace') {
+      const backupIds = new Set(backup.collections[name].map(record => record.id));
+      current[name].filter(record => !backupIds.has(record.id)).forEach(record => {
+        plan.remove.push(record.id);
+        plan.previous[record.id] = record;
+      });
+    }
+    return [name, plan];
+  })) as CatalogRestorePlan;
+};
+
+/**
+ * Applies a restore plan in chunked batches, reporting progress after each batch.
+ * Removed documents go to the trash, so a replace can be undone from the trash tab.
+ */
+export const applyCatalogRestore = async (
+  plan: CatalogRestorePlan,
+  onProgress: ProgressCallback
+): Promise<void> => {
+  const ops: WriteOp[] = [];
+
+  COLLECTIONS.forEach(name => {
+    [...plan[name].create, ...plan[name].update].forEach(record => {
+      const ref = doc(db, name, record.id);
+      const previous = plan[name].previous[record.id];
+      ops.push(batch => {
+        const data = toDocumentData(name, record);
+        batch.set(ref, data);
+        addAuditEntry(batch, {
+          action: previous ? 'update' : 'create',
+          collection: name,
+          documentId: record.id,
+          documentName: String(record[NAME_FIELDS[name]]),
+          before: previous && toDocumentData(name, previous),
+          after: data,
+        }, true);
+      });
+    });
+  });
+  const removals = COLLECTIONS.flatMap(name => plan[name].remove.map(id => ({ name, id })));
+  const total = ops.length + removals.length;
+  await commitInChunks(ops, done => onProgress(done, total));
+
+  // Removals run after the upserts, so children kept by the backup already point at
+  // their new parent. Parents go first and take their removed children along in one
+  // trash entry; children trashed that way are not trashed again.
+  const trashed = new Set<string>();
+  for (const [index, { name, id }] of removals.entries()) {
+    if (!trashed.has(`${name}/${id}`)) {
+      const items = await moveToTrash(name, id, toDocumentData(name, plan[name].previous[id]));
+      items.forEach(item => trashed.add(`${item.Collection}/${item.DocumentId}`));
+    }
+    onProgress(ops.length + index + 1, total);
+  }
+};
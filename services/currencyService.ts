@@ -0,0 +1,68 @@
+import { CurrencyCode, ExchangeRate } from '../types';
+
+export const BASE_CURRENCY: CurrencyCode = 'KRW';
+
+export const CURRENCIES: { code: CurrencyCode; name: string; symbol: string; fractionDigits: number }[] = [
+  { code: 'KRW', name: '원', symbol: '₩', fractionDigits: 0 },
+  { code: 'JPY', name: '엔', symbol: '¥', fractionDigits: 0 },
+  { code: 'USD', name: '달러', symbol: '$', fractionDigits: 2 },
+  { code: 'VND', name: '동', symbol: '₫', fractionDigits: 0 },
+  { code: 'EUR', name: '유로', symbol: '€', fractionDigits: 2 },
+  { code: 'CNY', name: '위안', symbol: 'CN¥', fractionDigits: 2 },
+  { code: 'THB', name: '바트', symbol: '฿', fractionDigits: 2 },
+];
+
+const getCurrencyInfo = (currency: CurrencyCode) =>
+  CURRENCIES.find(c => c.code === currency) || CURRENCIES[0];
+
+export const getFractionDigits = (currency: CurrencyCode = BASE_CURRENCY): number => getCurrencyInfo(currency).fractionDigits;
+
+export const roundMoney = (amount: number, currency: CurrencyCode = BASE_CURRENCY): number => {
+  const factor = 10 ** getCurrencyInfo(currency).fractionDigits;
+  return Math.round(amount * factor) / factor;
+};
+
+export const formatMoney = (amount: number, currency: CurrencyCode = BASE_CURRENCY): string => {
+  const { symbol, fractionDigits } = getCurrencyInfo(currency);
+  const rounded = roundMoney(amount, currency);
+  return `${symbol}${rounded.toLocaleString('ko-KR', { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits })}`;
+};
+
+// Excel number format that shows the currency symbol with the currency's usual decimals.
+export const getSpreadsheetNumberFormat = (currency: CurrencyCode = BASE_CURRENCY): string => {
+  const { symbol, fractionDigits } = getCurrencyInfo(currency);
+  return `"${symbol}"#,##0${fractionDigits > 0 ? '.' + '0'.repeat(fractionDigits) : ''}`;
+};
+
+export const todayDateString = (): string => new Date().toLocaleDateString('sv-SE');
+
+/**
+ * Returns how many KRW one unit of `currency` is worth on `onDate` (YYYY-MM-DD):
+ * the most recent rate whose effective date is on or before that day.
+ * Returns null when no rate has been entered for that period.
+ */
+export const getRateToBase = (rates: ExchangeRate[], currency: CurrencyCode, onDate: string): number | null => {
+  if (currency === BASE_CURRENCY) return 1;
+  const applicable = rates
+    .filter(r => r.Currency === currency && r.EffectiveDate <= onDate && r.RateToKRW > 0)
+    .sort((a, b) => b.EffectiveDate.localeCompare(a.EffectiveDate));
+  return applicable[0]?.RateToKRW ?? null;
+};
+
+/**
+ * Returns the multiplier that converts an amount in `from` into `to`, including the
+ * safety buffer for foreign-exchange movements. Same-currency conversion is never buffered.
+ */
+export const getConversionRate = (
+  rates: ExchangeRate[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  onDate: string,
+  bufferPercent = 0
+): number | null => {
+  if (from === to) return 1;
+  const fromRate = getRateToBase(rates, from, onDate);
+  const toRate = getRateToBase(rates, to, onDate);
+  if (fromRate === null || toRate === null) return null;
+  return (fromRate / toRate) * (1 + bufferPercent / 100);
+};
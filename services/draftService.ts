@@ -0,0 +1,148 @@
+import { db } from '../firebase';
+import { doc, getDoc, DocumentReference, Timestamp } from 'firebase/firestore';
+import { Product, Quote, QuoteDay } from '../types';
+import { loadCategoryMap, toQuoteProduct } from './productService';
+
+// Unsaved work in the quote builder, kept in the browser so a refresh or a click away
+// doesn't lose it. Drafts are per browser and never leave it.
+
+const DRAFTS_STORAGE_KEY = 'tourQuote.drafts';
+const MAX_DRAFTS = 10;
+
+export interface QuoteDraft {
+  id: string;
+  name: string;
+  savedAt: string; // ISO timestamp
+  quoteId: string | null; // Saved quote the draft continues, if any
+  quote: Quote;
+}
+
+// Items whose product changed in the catalog after the draft was written.
+export type CatalogIssue = 'deleted' | 'repriced';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+
+// Product snapshots hold references and timestamps, which JSON can't represent.
+const encodeValue = (value: unknown): unknown => {
+  if (value instanceof DocumentReference) return { $ref: value.path };
+  if (value instanceof Timestamp) return { $timestamp: value.toDate().toISOString() };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, encodeValue(v)]));
+  }
+  return value;
+};
+
+const decodeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (isPlainObject(value)) {
+    if (typeof value.$ref === 'string' && Object.keys(value).length === 1) {
+      return doc(db, value.$ref);
+    }
+    if (typeof value.$timestamp === 'string' && Object.keys(value).length === 1) {
+      return Timestamp.fromDate(new Date(value.$timestamp));
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, decodeValue(v)]));
+  }
+  return value;
+};
+
+// Drops anything that can't be a draft, and items without a product, instead of failing later.
+const toDraft = (raw: unknown): QuoteDraft | null => {
+  if (!isPlainObject(raw) || typeof raw.id !== 'string' || !isPlainObject(raw.quote)) return null;
+  const quote = raw.quote as unknown as Quote;
+  if (!isPlainObject(quote.info) || !isPlainObject(quote.info.pax) || !Array.isArray(quote.days)) return null;
+  const days: QuoteDay[] = quote.days
+    .filter(day => isPlainObject(day) && typeof day.id === 'string')
+    .map(day => ({
+      ...day,
+      items: (Array.isArray(day.items) ? day.items : []).filter(item => isPlainObject(item) && isPlainObject(item.product)),
+    }));
+  return {
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : '',
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : '',
+    quoteId: typeof raw.quoteId === 'string' ? raw.quoteId : null,
+    quote: { ...quote, days },
+  };
+};
+
+const writeDrafts = (drafts: QuoteDraft[]) => {
+  localStorage.setItem(DRAFTS_STORAGE_KEY, JSON.stringify(encodeValue(drafts)));
+};
+
+/** All stored drafts, most recently saved first. Unreadable storage yields an empty list. */
+export const listDrafts = (): QuoteDraft[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(DRAFTS_STORAGE_KEY) || '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .map(entry => toDraft(decodeValue(entry)))
+      .filter((draft): draft is QuoteDraft => draft !== null)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  } catch (err) {
+    console.error('Failed to read quote drafts:', err);
+    return [];
+  }
+};
+
+/**
+ * Stores the draft, replacing an earlier version with the same ID. Only the most recent
+ * drafts are kept. Storage errors (e.g. a full quota) are logged rather than thrown so
+ * they never interrupt editing.
+ */
+export const saveDraft = (draft: Omit<QuoteDraft, 'savedAt'>): void => {
+  try {
+    const others = listDrafts().filter(d => d.id !== draft.id);
+    writeDrafts([{ ...draft, savedAt: new Date().toISOString() }, ...others].slice(0, MAX_DRAFTS));
+  } catch (err) {
+    console.error('Failed to save quote draft:', err);
+  }
+};
+
+export const deleteDraft = (id: string): void => {
+  try {
+    writeDrafts(listDrafts().filter(d => d.id !== id));
+  } catch (err) {
+    console.error('Failed to delete quote draft:', err);
+  }
+};
+
+const PRICE_FIELDS: (keyof Product)[] = [
+  'PricingType', 'Currency', 'PaxPerUnit',
+  'Price_Adult', 'Price_Child', 'Price_Infant', 'Price_Unit',
+  'Cost_Adult', 'Cost_Child', 'Cost_Infant', 'Cost_Unit',
+];
+
+const hasPriceChanged = (before: Product, after: Product): boolean => {
+  return PRICE_FIELDS.some(field => (before[field] ?? null) !== (after[field] ?? null))
+    || JSON.stringify(before.PricePeriods ?? []) !== JSON.stringify(after.PricePeriods ?? []);
+};
+
+/**
+ * Compares the product snapshots in `days` with the catalog. Returns the issues by item ID,
+ * and the current version of every product that still exists.
+ */
+export const findCatalogChanges = async (days: QuoteDay[]): Promise<{ issues: Record<string, CatalogIssue>; products: Map<string, Product> }> => {
+  const productIds = [...new Set(days.flatMap(day => day.items.map(item => item.product.id)))];
+  const [snapshots, categoryMap] = await Promise.all([
+    Promise.all(productIds.map(id => getDoc(doc(db, 'Products', id)))),
+    loadCategoryMap(),
+  ]);
+  const products = new Map<string, Product>();
+  snapshots
+    .filter(snapshot => snapshot.exists() && !snapshot.data().DeletedAt)
+    .forEach(snapshot => products.set(snapshot.id, toQuoteProduct(snapshot, categoryMap)));
+
+  const issues: Record<string, CatalogIssue> = {};
+  days.forEach(day => day.items.forEach(item => {
+    const current = products.get(item.product.id);
+    if (!current) {
+      issues[item.id] = 'deleted';
+    } else if (hasPriceChanged(item.product, current)) {
+      issues[item.id] = 'repriced';
+    }
+  }));
+  return { issues, products };
+};
@@ -1,19 +1,33 @@
 import { Quote, QuoteDay, QuoteItem } from '../types';
+import { BASE_CURRENCY, formatMoney, roundMoney } from './currencyService';
+import { formatItemBreakdown, PAX_COUNT_FIELDS, PAX_TYPES, PAX_TYPE_LABELS } from './quoteItemService';
+import { formatDayHeading, formatRouteSummary, formatTravelPeriod, getDayDate, getWeekdayLabel } from './itineraryService';
+import { calculatePaymentSchedule, getPaymentScheduleLines, getTotalLines } from './quoteTotalsService';
 
-const formatCurrency = (amount: number): string => {
-    return `₩${Math.round(amount).toLocaleString('ko-KR')}`;
-}
+// Both exports are customer-facing: they only use sell prices (appliedPrice/total).
+// Internal fields such as costPrice and markupPercent must never be written here.
 
 export const generateTextQuote = (quote: Quote): string => {
+  const currency = quote.info.currency || BASE_CURRENCY;
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
   let text = `견적서: ${quote.info.customerName || '해당 없음'}\n`;
   text += `인원: 성인 ${quote.info.pax.adults}, 아동 ${quote.info.pax.children}, 유아 ${quote.info.pax.infants}\n`;
+  text += `일정: ${formatTravelPeriod(quote.info.departureDate, quote.days.length)}\n`;
+  if (quote.days.some(day => day.cityId)) {
+    text += `여정: ${formatRouteSummary(quote.days)}\n`;
+  }
+  if (quote.info.validUntil) {
+    text += `견적 유효기간: ${quote.info.validUntil}까지\n`;
+  }
   text += '--------------------------------------------------\n\n';
 
   quote.days.forEach((day, index) => {
-    text += `** ${index + 1}일차 **\n`;
+    text += `** ${formatDayHeading(quote.info.departureDate, day, index)} **\n`;
     day.items.forEach((item) => {
       text += `- ${item.product.ProductName}`;
-      if (item.product.PricingType === 'PerUnit') {
+      if (item.paxLines) {
+        text += ` (${formatItemBreakdown(item, formatCurrency)})`;
+      } else if (item.product.PricingType === 'PerUnit') {
         text += ` (수량 ${item.quantity} x 단가 ${formatCurrency(item.appliedPrice)})`;
       }
       text += `: ${formatCurrency(item.total)}\n`;
@@ -22,43 +36,115 @@ export const generateTextQuote = (quote: Quote): string => {
   });
 
   text += '--------------------------------------------------\n';
-  text += `총 합계: ${formatCurrency(quote.grandTotal)}\n`;
+  getTotalLines(quote).forEach(line => {
+    text += `${line.label}: ${formatCurrency(line.amount)}\n`;
+  });
+
+  const payment = calculatePaymentSchedule(quote.info, quote.grandTotal);
+  if (payment) {
+    text += '\n결제 일정\n';
+    getPaymentScheduleLines(quote.info, payment).forEach(line => {
+      text += `- ${line.label}: ${formatCurrency(line.amount)}\n`;
+    });
+  }
+
+  if (quote.priceTiers?.length) {
+    text += '\n인원별 1인 요금\n';
+    quote.priceTiers.forEach(tier => {
+      const prices = PAX_TYPES
+        .filter(paxType => tier.pax[PAX_COUNT_FIELDS[paxType]] > 0)
+        .map(paxType => `${PAX_TYPE_LABELS[paxType]} ${formatCurrency(tier.perPerson[paxType])}`);
+      text += `- ${tier.groupSize}명: ${prices.join(', ')} (총 ${formatCurrency(tier.total)})\n`;
+    });
+  }
 
   return text;
 };
 
+// Headcount and unit price per pax type. Unit-priced items only list the quote's headcount.
+const paxColumns = (item: QuoteItem, quote: Quote): (string | number)[] => {
+  const currency = quote.info.currency || BASE_CURRENCY;
+  return PAX_TYPES.flatMap(paxType => {
+    const line = item.paxLines?.find(l => l.paxType === paxType);
+    return line
+      ? [line.quantity, roundMoney(line.unitPrice, currency)]
+      : [quote.info.pax[PAX_COUNT_FIELDS[paxType]], ''];
+  });
+};
+
 export const exportCsvQuote = (quote: Quote): void => {
+  const currency = quote.info.currency || BASE_CURRENCY;
+  const formatCurrency = (amount: number) => formatMoney(amount, currency);
   const headers = [
     '일차',
+    '날짜',
+    '요일',
+    '도시',
     '카테고리',
     '상품명',
     '가격 유형',
     '성인',
+    `성인 단가 (${currency})`,
     '아동',
+    `아동 단가 (${currency})`,
     '유아',
+    `유아 단가 (${currency})`,
     '단위 수량',
-    '단가',
-    '총 가격',
+    `단가 (${currency})`,
+    '산출 내역',
+    `총 가격 (${currency})`,
   ];
 
   const rows: (string | number)[][] = [];
   quote.days.forEach((day, index) => {
+    const date = getDayDate(quote.info.departureDate, index);
     day.items.forEach((item) => {
       rows.push([
         index + 1,
+        date || '',
+        date ? getWeekdayLabel(date) : '',
+        day.cityName || '',
         item.product.CategoryName || '해당 없음',
         item.product.ProductName,
         item.product.PricingType === 'PerPerson' ? '인당' : '단위당',
-        quote.info.pax.adults,
-        quote.info.pax.children,
-        quote.info.pax.infants,
-        item.product.PricingType === 'PerUnit' ? item.quantity : '해당 없음',
-        item.product.PricingType === 'PerUnit' ? Math.round(item.appliedPrice) : '해당 없음',
-        Math.round(item.total),
+        ...paxColumns(item, quote),
+        item.paxLines ? '' : item.quantity,
+        item.paxLines ? '' : roundMoney(item.appliedPrice, currency),
+        formatItemBreakdown(item, formatCurrency),
+        roundMoney(item.total, currency),
       ]);
     });
   });
 
+  // Subtotal, adjustments, tax and total go below the items, with the amount in the total column.
+  const summaryRow = (label: string, amount: number) => {
+    const row: (string | number)[] = headers.map(() => '');
+    row[headers.indexOf('상품명')] = label;
+    row[row.length - 1] = amount;
+    return row;
+  };
+  rows.push(headers.map(() => ''));
+  getTotalLines(quote).forEach(line => rows.push(summaryRow(line.label, roundMoney(line.amount, currency))));
+
+  const payment = calculatePaymentSchedule(quote.info, quote.grandTotal);
+  if (payment) {
+    getPaymentScheduleLines(quote.info, payment).forEach(line => rows.push(summaryRow(line.label, roundMoney(line.amount, currency))));
+  }
+
+  // Tier rows reuse the pax columns: headcount and the per-person price of each pax type.
+  if (quote.priceTiers?.length) {
+    rows.push(headers.map(() => ''));
+    quote.priceTiers.forEach(tier => {
+      const row = summaryRow(`인원별 요금: ${tier.groupSize}명`, roundMoney(tier.total, currency));
+      PAX_TYPES.forEach(paxType => {
+        const column = headers.indexOf(PAX_TYPE_LABELS[paxType]);
+        row[column] = tier.pax[PAX_COUNT_FIELDS[paxType]];
+        row[column + 1] = roundMoney(tier.perPerson[paxType], currency);
+      });
+      rows.push(row);
+    });
+  }
+
   let csvContent = "data:text/csv;charset=utf-8,\uFEFF"; // Add BOM for Excel compatibility
   csvContent += headers.join(",") + "\n";
   rows.forEach(rowArray => {
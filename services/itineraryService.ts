@@ -0,0 +1,125 @@
+import { QuoteDay, QuoteInfo, QuoteItem } from '../types';
+
+export const UNCATEGORIZED = '미분류';
+
+export interface CategoryGroup {
+  categoryName: string;
+  items: QuoteItem[];
+}
+
+/**
+ * Groups the items of a day by category, sorted by name with uncategorized items last.
+ * This is the order the quote builder shows, and customer documents must match it.
+ */
+export const groupItemsByCategory = (items: QuoteItem[]): CategoryGroup[] => {
+  const itemsByCategory = items.reduce((acc, item) => {
+    const categoryName = item.product.CategoryName || UNCATEGORIZED;
+    if (!acc[categoryName]) {
+      acc[categoryName] = [];
+    }
+    acc[categoryName].push(item);
+    return acc;
+  }, {} as Record<string, QuoteItem[]>);
+
+  return Object.keys(itemsByCategory)
+    .sort((a, b) => {
+      if (a === UNCATEGORIZED) return 1;
+      if (b === UNCATEGORIZED) return -1;
+      return a.localeCompare(b);
+    })
+    .map(categoryName => ({ categoryName, items: itemsByCategory[categoryName] }));
+};
+
+export const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+
+/** Adds `days` calendar days to a YYYY-MM-DD date. */
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00`);
+  result.setDate(result.getDate() + days);
+  return result.toLocaleDateString('sv-SE');
+};
+
+/** Whole days from `from` to `to` (YYYY-MM-DD); negative when `to` is earlier. */
+export const daysBetween = (from: string, to: string): number => {
+  // Compared in UTC so daylight-saving changes cannot produce fractional days.
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+};
+
+export const getWeekdayLabel = (date: string): string => WEEKDAY_LABELS[new Date(`${date}T00:00:00`).getDay()];
+
+/**
+ * Returns the calendar date (YYYY-MM-DD) of the day at `dayIndex`, or undefined without a
+ * departure date. Dates are derived from the position, so inserting or removing a day
+ * shifts every later day automatically.
+ */
+export const getDayDate = (departureDate: string | undefined, dayIndex: number): string | undefined => {
+  if (!departureDate || dayIndex < 0) return undefined;
+  return addDays(departureDate, dayIndex);
+};
+
+/** "1일차", or "1일차 (2026-11-03 화)" when the quote has a departure date. */
+export const formatDayLabel = (departureDate: string | undefined, dayIndex: number): string => {
+  const date = getDayDate(departureDate, dayIndex);
+  return date ? `${dayIndex + 1}일차 (${date} ${getWeekdayLabel(date)})` : `${dayIndex + 1}일차`;
+};
+
+/** "2026-11-03 (화) ~ 2026-11-06 (금), 3박 4일", or just the length without a departure date. */
+export const formatTravelPeriod = (departureDate: string | undefined, dayCount: number): string => {
+  const length = dayCount > 1 ? `${dayCount - 1}박 ${dayCount}일` : `${dayCount}일`;
+  if (!departureDate || dayCount < 1) return length;
+  const lastDate = addDays(departureDate, dayCount - 1);
+  return `${departureDate} (${getWeekdayLabel(departureDate)}) ~ ${lastDate} (${getWeekdayLabel(lastDate)}), ${length}`;
+};
+
+/** Fills in the location of days saved before quotes had per-day cities, using the quote-level one. */
+export const withDayLocations = (info: QuoteInfo, days: QuoteDay[]): QuoteDay[] => {
+  return days.map(day => day.cityId !== undefined ? day : { ...day, countryId: info.countryId, cityId: info.cityId });
+};
+
+/** The day label followed by its city, e.g. "2일차 (2026-11-04 수) · 하코네". */
+export const formatDayHeading = (departureDate: string | undefined, day: QuoteDay, dayIndex: number): string => {
+  const label = formatDayLabel(departureDate, dayIndex);
+  return day.cityName ? `${label} · ${day.cityName}` : label;
+};
+
+/** Consecutive days in the same city with the number of days, e.g. "도쿄(2) → 하코네(1) → 교토(3)". */
+export const formatRouteSummary = (days: QuoteDay[]): string => {
+  const legs: { cityId: string; name: string; days: number }[] = [];
+  days.forEach(day => {
+    const cityId = day.cityId || '';
+    const last = legs[legs.length - 1];
+    if (last && last.cityId === cityId) {
+      last.days += 1;
+    } else {
+      legs.push({ cityId, name: day.cityName || '미정', days: 1 });
+    }
+  });
+  return legs.map(leg => `${leg.name}(${leg.days})`).join(' → ');
+};
+
+/** Moves a day to `targetIndex`, counted in the list without the moved day. */
+export const moveDay = (days: QuoteDay[], dayId: string, targetIndex: number): QuoteDay[] => {
+  const day = days.find(d => d.id === dayId);
+  if (!day) return days;
+  const rest = days.filter(d => d.id !== dayId);
+  return [...rest.slice(0, targetIndex), day, ...rest.slice(targetIndex)];
+};
+
+/**
+ * Moves an item to another position, in the same day or another one. It is placed before
+ * `beforeItemId`, or at the end of the target day when that is not given.
+ */
+export const moveItem = (days: QuoteDay[], itemId: string, targetDayId: string, beforeItemId?: string): QuoteDay[] => {
+  const item = days.flatMap(d => d.items).find(i => i.id === itemId);
+  if (!item || itemId === beforeItemId) return days;
+  return days
+    .map(day => ({ ...day, items: day.items.filter(i => i.id !== itemId) }))
+    .map(day => {
+      if (day.id !== targetDayId) return day;
+      const index = beforeItemId ? day.items.findIndex(i => i.id === beforeItemId) : -1;
+      const items = index >= 0
+        ? [...day.items.slice(0, index), item, ...day.items.slice(index)]
+        : [...day.items, item];
+      return { ...day, items };
+    });
+};
@@ -0,0 +1,68 @@
+import { auth, db } from '../firebase';
+import { addDoc, collection, deleteDoc, doc, getDoc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { PackageTemplate, PackageTemplateDay, Product, QuoteDay } from '../types';
+import { loadCategoryMap, toQuoteProduct } from './productService';
+
+export const PACKAGE_TEMPLATES_COLLECTION = 'PackageTemplates';
+
+// Only the location and product references are kept; prices are looked up again on insert.
+const toTemplateDay = (day: QuoteDay): PackageTemplateDay => {
+  const templateDay: PackageTemplateDay = {
+    Items: day.items.map(item => ({
+      ProductRef: doc(db, 'Products', item.product.id),
+      ProductName: item.product.ProductName,
+      ...(item.product.PricingType === 'PerUnit' ? { Quantity: item.quantity } : {}),
+    })),
+  };
+  if (day.countryId) templateDay.CountryRef = doc(db, 'Countries', day.countryId);
+  if (day.cityId) templateDay.CityRef = doc(db, 'Cities', day.cityId);
+  if (day.cityName) templateDay.CityName = day.cityName;
+  return templateDay;
+};
+
+/** Saves `days` as a new package template and returns its document ID. */
+export const savePackageTemplate = async (name: string, description: string, days: QuoteDay[]): Promise<string> => {
+  const ref = await addDoc(collection(db, PACKAGE_TEMPLATES_COLLECTION), {
+    TemplateName: name.trim(),
+    ...(description.trim() ? { Description: description.trim() } : {}),
+    Days: days.map(toTemplateDay),
+    CreatedBy: auth.currentUser?.email ?? '',
+    CreatedAt: serverTimestamp(),
+    LastModified: serverTimestamp(),
+  });
+  return ref.id;
+};
+
+export const updatePackageTemplate = async (id: string, changes: Pick<PackageTemplate, 'TemplateName' | 'Description' | 'Days'>): Promise<void> => {
+  await updateDoc(doc(db, PACKAGE_TEMPLATES_COLLECTION, id), {
+    TemplateName: changes.TemplateName.trim(),
+    Description: changes.Description?.trim() || '',
+    Days: changes.Days,
+    LastModified: serverTimestamp(),
+  });
+};
+
+export const deletePackageTemplate = async (id: string): Promise<void> => {
+  await deleteDoc(doc(db, PACKAGE_TEMPLATES_COLLECTION, id));
+};
+
+/**
+ * Loads the current version of every product a template refers to, keyed by product ID.
+ * Products that were deleted or moved to the trash are left out.
+ */
+export const loadTemplateProducts = async (template: PackageTemplate): Promise<Map<string, Product>> => {
+  const refs = new Map(template.Days.flatMap(day => day.Items.map(item => [item.ProductRef.id, item.ProductRef] as const)));
+  const [snapshots, categoryMap] = await Promise.all([
+    Promise.all([...refs.values()].map(ref => getDoc(ref))),
+    loadCategoryMap(),
+  ]);
+  const products = new Map<string, Product>();
+  snapshots
+    .filter(snapshot => snapshot.exists() && !snapshot.data().DeletedAt)
+    .forEach(snapshot => products.set(snapshot.id, toQuoteProduct(snapshot, categoryMap)));
+  return products;
+};
+
+export const countTemplateItems = (template: PackageTemplate): number => {
+  return template.Days.reduce((sum, day) => sum + day.Items.length, 0);
+};
@@ -0,0 +1,70 @@
+const PAGE_MARGIN_MM = 10;
+const BLOCK_GAP_MM = 4;
+
+// Copies a horizontal band of the source canvas so oversized blocks can span pages.
+const cropCanvas = (source: HTMLCanvasElement, y: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(source, 0, y, source.width, height, 0, 0, source.width, height);
+  }
+  return canvas;
+};
+
+/**
+ * Renders an element to an A4 PDF entirely in the browser and downloads it.
+ * Children marked with `data-pdf-block` are kept together on a page where they fit,
+ * so day tables are not cut in half; blocks taller than a page are split across pages.
+ */
+export const downloadElementAsPdf = async (element: HTMLElement, fileName: string): Promise<void> => {
+  // Loaded on demand: both libraries are only needed when a document is exported.
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([
+    import('html2canvas'),
+    import('jspdf'),
+  ]);
+
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN_MM * 2;
+  const contentHeight = pageHeight - PAGE_MARGIN_MM * 2;
+
+  const blocks = Array.from(element.querySelectorAll<HTMLElement>('[data-pdf-block]'));
+  const targets = blocks.length > 0 ? blocks : [element];
+
+  let cursorY = PAGE_MARGIN_MM;
+  for (const block of targets) {
+    const canvas = await html2canvas(block, { scale: 2, backgroundColor: '#ffffff', useCORS: true });
+    const mmPerPixel = contentWidth / canvas.width;
+    const blockHeight = canvas.height * mmPerPixel;
+
+    if (cursorY > PAGE_MARGIN_MM && cursorY + blockHeight > PAGE_MARGIN_MM + contentHeight) {
+      pdf.addPage();
+      cursorY = PAGE_MARGIN_MM;
+    }
+
+    if (blockHeight <= contentHeight) {
+      pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', PAGE_MARGIN_MM, cursorY, contentWidth, blockHeight);
+      cursorY += blockHeight + BLOCK_GAP_MM;
+      continue;
+    }
+
+    const pageSlicePx = Math.floor(contentHeight / mmPerPixel);
+    for (let offsetPx = 0; offsetPx < canvas.height; offsetPx += pageSlicePx) {
+      if (offsetPx > 0) {
+        pdf.addPage();
+        cursorY = PAGE_MARGIN_MM;
+      }
+      const slice = cropCanvas(canvas, offsetPx, Math.min(pageSlicePx, canvas.height - offsetPx));
+      const sliceHeight = slice.height * mmPerPixel;
+      pdf.addImage(slice.toDataURL('image/jpeg', 0.92), 'JPEG', PAGE_MARGIN_MM, cursorY, contentWidth, sliceHeight);
+      cursorY += sliceHeight + BLOCK_GAP_MM;
+    }
+  }
+
+  pdf.save(fileName);
+};
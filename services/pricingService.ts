@@ -0,0 +1,243 @@
+import { CurrencyCode, PaxType, Product, ProductPricePeriod, QuoteAdjustment, QuoteDay, QuoteInfo, QuoteItem, QuoteItemPaxLine, QuotePriceTier } from '../types';
+import { roundMoney } from './currencyService';
+import { getDayDate } from './itineraryService';
+import { calculateItemTotal } from './quoteItemService';
+import { calculatePerPersonPrices, calculateQuoteTotals } from './quoteTotalsService';
+
+// Internal pricing helpers. Nothing here may be used by the customer-facing exports.
+
+export interface MarginSummary {
+  cost: number;
+  sell: number;
+  margin: number;
+  // Margin as a share of the sell price (0.2 = 20%); null when there is no sell amount.
+  marginRate: number | null;
+}
+
+/**
+ * Resolves the markup that applies to an item: the item override wins over the
+ * quote override, which wins over the category default. Returns null when no
+ * markup is configured at any level, in which case the catalog sell price is used.
+ */
+export const getEffectiveMarkupPercent = (item: QuoteItem, quoteMarkupPercent?: number | null): number | null => {
+  if (item.markupPercent !== undefined && item.markupPercent !== null) return item.markupPercent;
+  if (quoteMarkupPercent !== undefined && quoteMarkupPercent !== null) return quoteMarkupPercent;
+  if (item.product.CategoryMarkupPercent !== undefined && item.product.CategoryMarkupPercent !== null) {
+    return item.product.CategoryMarkupPercent;
+  }
+  return null;
+};
+
+export type ProductRates = Pick<ProductPricePeriod,
+  'Price_Adult' | 'Price_Child' | 'Price_Infant' | 'Price_Unit' | 'Cost_Adult' | 'Cost_Child' | 'Cost_Infant' | 'Cost_Unit'>;
+
+const periodSpan = (period: ProductPricePeriod) => new Date(period.EndDate).getTime() - new Date(period.StartDate).getTime();
+
+/**
+ * Finds the price period that applies on `date` (YYYY-MM-DD). When several overlap, the
+ * most specific one wins: weekday-limited periods before whole ranges, then the shortest
+ * range, so a "weekend" rate inside a "peak season" rate takes precedence.
+ */
+export const findPricePeriod = (product: Product, date?: string): ProductPricePeriod | null => {
+  if (!date || !product.PricePeriods?.length) return null;
+  const weekday = new Date(`${date}T00:00:00`).getDay();
+  const matches = product.PricePeriods.filter(period =>
+    period.StartDate <= date && date <= period.EndDate &&
+    (!period.Weekdays?.length || period.Weekdays.includes(weekday))
+  );
+  matches.sort((a, b) => {
+    const aWeekdays = a.Weekdays?.length ? 0 : 1;
+    const bWeekdays = b.Weekdays?.length ? 0 : 1;
+    return aWeekdays - bWeekdays || periodSpan(a) - periodSpan(b);
+  });
+  return matches[0] ?? null;
+};
+
+/** Returns the prices and costs of a product on `date`, with the period they came from. */
+export const getProductRates = (product: Product, date?: string): { rates: ProductRates; period: ProductPricePeriod | null } => {
+  const period = findPricePeriod(product, date);
+  return { rates: period ?? product, period };
+};
+
+export const applyMarkup = (costPrice: number, markupPercent: number, currency?: CurrencyCode): number => {
+  return roundMoney(costPrice * (1 + markupPercent / 100), currency);
+};
+
+const PAX_RATE_FIELDS: Record<PaxType, { pax: keyof QuoteInfo['pax']; price: keyof ProductRates; cost: keyof ProductRates }> = {
+  adult: { pax: 'adults', price: 'Price_Adult', cost: 'Cost_Adult' },
+  child: { pax: 'children', price: 'Price_Child', cost: 'Cost_Child' },
+  infant: { pax: 'infants', price: 'Price_Infant', cost: 'Cost_Infant' },
+};
+
+/**
+ * Builds one line per pax type from catalog rates, converted with `exchangeRate` into
+ * the quote currency. Every pax type gets a line, even with no travellers, so it can be
+ * filled in later.
+ */
+export const buildPaxLines = (pax: QuoteInfo['pax'], rates: ProductRates, exchangeRate: number, currency?: CurrencyCode): QuoteItemPaxLine[] => {
+  return (Object.keys(PAX_RATE_FIELDS) as PaxType[]).map(paxType => {
+    const fields = PAX_RATE_FIELDS[paxType];
+    return {
+      paxType,
+      quantity: pax[fields.pax],
+      unitPrice: roundMoney((rates[fields.price] || 0) * exchangeRate, currency),
+      costPrice: roundMoney((rates[fields.cost] || 0) * exchangeRate, currency),
+    };
+  });
+};
+
+/** Units a pax-scaled PerUnit product needs for the group, or null when it doesn't scale. */
+export const getUnitsForPax = (product: Product, pax: QuoteInfo['pax']): number | null => {
+  if (product.PricingType !== 'PerUnit' || !product.PaxPerUnit || product.PaxPerUnit <= 0) return null;
+  return Math.max(1, Math.ceil((pax.adults + pax.children) / product.PaxPerUnit));
+};
+
+/** Whether changing the pax counts changes the catalog price of an item. */
+export const scalesWithPax = (item: QuoteItem): boolean => {
+  return item.product.PricingType === 'PerPerson' || (!!item.product.PaxPerUnit && item.product.PaxPerUnit > 0);
+};
+
+/**
+ * Prices an item from its product's catalog rates for `pax` on `date`, converted into the
+ * quote currency with `exchangeRate`, then applies the effective markup. Any manual
+ * override is discarded. PerUnit items that don't scale with pax keep their quantity.
+ */
+export const priceItemFromCatalog = (
+  item: QuoteItem,
+  pax: QuoteInfo['pax'],
+  date: string | undefined,
+  exchangeRate: number,
+  quoteMarkupPercent?: number | null,
+  currency?: CurrencyCode
+): QuoteItem => {
+  const { rates, period } = getProductRates(item.product, date);
+  const { overridden, pricePeriodName, paxLines, costPrice, ...rest } = item;
+  const priced: QuoteItem = item.product.PricingType === 'PerPerson'
+    ? {
+        ...rest,
+        quantity: pax.adults + pax.children + pax.infants,
+        appliedPrice: 0,
+        paxLines: buildPaxLines(pax, rates, exchangeRate, currency),
+      }
+    : {
+        ...rest,
+        quantity: getUnitsForPax(item.product, pax) ?? item.quantity,
+        appliedPrice: roundMoney((rates.Price_Unit || 0) * exchangeRate, currency),
+        costPrice: roundMoney((rates.Cost_Unit || 0) * exchangeRate, currency),
+      };
+  return repriceItemWithMarkup({
+    ...priced,
+    exchangeRate,
+    ...(period ? { pricePeriodName: period.Name } : {}),
+  }, quoteMarkupPercent, currency);
+};
+
+/**
+ * Re-prices the days for another set of pax counts. Hand-edited items keep their prices,
+ * but their pax lines follow the new counts so every traveller is still charged.
+ */
+export const priceDaysForPax = (days: QuoteDay[], info: QuoteInfo, pax: QuoteInfo['pax']): QuoteDay[] => {
+  return days.map((day, index) => {
+    const dayDate = getDayDate(info.departureDate, index);
+    const items = day.items.map(item => {
+      let priced = item;
+      if (!item.overridden && scalesWithPax(item)) {
+        priced = priceItemFromCatalog(item, pax, dayDate, item.exchangeRate || 1, info.markupPercent, info.currency);
+      } else if (item.paxLines) {
+        priced = {
+          ...item,
+          quantity: pax.adults + pax.children + pax.infants,
+          paxLines: item.paxLines.map(line => ({ ...line, quantity: pax[PAX_RATE_FIELDS[line.paxType].pax] })),
+        };
+      }
+      return { ...priced, total: calculateItemTotal(priced) };
+    });
+    return { ...day, items, dayTotal: items.reduce((sum, item) => sum + item.total, 0) };
+  });
+};
+
+/**
+ * Re-prices items on seasonal rates for the date their day now falls on, after the departure
+ * date changed or days were inserted, removed or moved. Without a departure date they go back
+ * to base prices. Hand-edited items keep their prices.
+ */
+export const repriceForDayDates = (days: QuoteDay[], info: QuoteInfo): QuoteDay[] => {
+  return days.map((day, index) => {
+    const dayDate = getDayDate(info.departureDate, index);
+    return {
+      ...day,
+      items: day.items.map(item => item.overridden || !item.product.PricePeriods?.length
+        ? item
+        : priceItemFromCatalog(item, info.pax, dayDate, item.exchangeRate || 1, info.markupPercent, info.currency)),
+    };
+  });
+};
+
+/** Pax counts for a group size: the quote's children and infants, with adults making up the rest. */
+export const getTierPax = (groupSize: number, pax: QuoteInfo['pax']): QuoteInfo['pax'] => {
+  const children = Math.min(pax.children, groupSize);
+  return { adults: groupSize - children, children, infants: pax.infants };
+};
+
+/** Recomputes the whole quote, adjustments and tax included, for each group size. */
+export const buildPriceTiers = (info: QuoteInfo, days: QuoteDay[], adjustments: QuoteAdjustment[], groupSizes: number[]): QuotePriceTier[] => {
+  return groupSizes.map(groupSize => {
+    const pax = getTierPax(groupSize, info.pax);
+    const tierInfo = { ...info, pax };
+    const tierDays = priceDaysForPax(days, tierInfo, pax);
+    const totals = calculateQuoteTotals(tierInfo, tierDays, adjustments);
+    return { groupSize, pax, perPerson: calculatePerPersonPrices(tierInfo, tierDays, totals), total: totals.total };
+  });
+};
+
+export const hasItemCost = (item: QuoteItem): boolean => {
+  return item.paxLines ? item.paxLines.some(line => !!line.costPrice) : !!item.costPrice;
+};
+
+export const getItemCost = (item: QuoteItem): number => {
+  if (item.paxLines) {
+    return item.paxLines.reduce((sum, line) => sum + line.quantity * (line.costPrice || 0), 0);
+  }
+  return item.quantity * (item.costPrice || 0);
+};
+
+/**
+ * Recomputes the sell price of an item from its net cost and the effective markup.
+ * Items without a recorded cost, or without any markup configured, keep their price;
+ * so do individual pax lines without a cost.
+ */
+export const repriceItemWithMarkup = (item: QuoteItem, quoteMarkupPercent?: number | null, currency?: CurrencyCode): QuoteItem => {
+  const markupPercent = getEffectiveMarkupPercent(item, quoteMarkupPercent);
+  if (markupPercent === null || !hasItemCost(item)) return item;
+  if (item.paxLines) {
+    return {
+      ...item,
+      paxLines: item.paxLines.map(line =>
+        line.costPrice ? { ...line, unitPrice: applyMarkup(line.costPrice, markupPercent, currency) } : line
+      ),
+    };
+  }
+  return { ...item, appliedPrice: applyMarkup(item.costPrice || 0, markupPercent, currency) };
+};
+
+export const summarizeMargin = (cost: number, sell: number): MarginSummary => {
+  const margin = sell - cost;
+  return { cost, sell, margin, marginRate: sell !== 0 ? margin / sell : null };
+};
+
+export const summarizeItemMargin = (item: QuoteItem): MarginSummary => {
+  return summarizeMargin(getItemCost(item), item.total);
+};
+
+export const summarizeDayMargin = (day: QuoteDay): MarginSummary => {
+  const cost = day.items.reduce((sum, item) => sum + getItemCost(item), 0);
+  return summarizeMargin(cost, day.dayTotal);
+};
+
+export const summarizeQuoteMargin = (days: QuoteDay[]): MarginSummary => {
+  const { cost, sell } = days.reduce((acc, day) => {
+    const dayMargin = summarizeDayMargin(day);
+    return { cost: acc.cost + dayMargin.cost, sell: acc.sell + dayMargin.sell };
+  }, { cost: 0, sell: 0 });
+  return summarizeMargin(cost, sell);
+};
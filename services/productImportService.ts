@@ -0,0 +1,399 @@
+import { db } from '../firebase';
+import { collection, doc, serverTimestamp, DocumentReference } from 'firebase/firestore';
+import { Country, City, Category, Product, PricingType, CurrencyCode } from '../types';
+import { CURRENCIES, BASE_CURRENCY } from './currencyService';
+import { addAuditEntry } from './auditService';
+import { commitInChunks, WriteOp, ProgressCallback } from './batchService';
+
+export type ImportField =
+  | 'ProductName' | 'ProductDescription' | 'ProductURL'
+  | 'CountryName' | 'CityName' | 'CategoryName'
+  | 'PricingType' | 'Currency'
+  | 'Price_Adult' | 'Price_Child' | 'Price_Infant' | 'Price_Unit'
+  | 'Cost_Adult' | 'Cost_Child' | 'Cost_Infant' | 'Cost_Unit';
+
+type PriceField = 'Price_Adult' | 'Price_Child' | 'Price_Infant' | 'Price_Unit' | 'Cost_Adult' | 'Cost_Child' | 'Cost_Infant' | 'Cost_Unit';
+
+const PRICE_FIELDS: PriceField[] = ['Price_Adult', 'Price_Child', 'Price_Infant', 'Price_Unit', 'Cost_Adult', 'Cost_Child', 'Cost_Infant', 'Cost_Unit'];
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { key: 'ProductName', label: '상품명', required: true, aliases: ['상품명', '상품', 'productname', 'name'] },
+  { key: 'ProductDescription', label: '상품 설명', aliases: ['상품 설명', '설명', 'description', 'productdescription'] },
+  { key: 'ProductURL', label: '관련 URL', aliases: ['관련 url', 'url', '링크', 'producturl'] },
+  { key: 'CountryName', label: '국가', aliases: ['국가', '나라', 'country', 'countryname'] },
+  { key: 'CityName', label: '도시', required: true, aliases: ['도시', 'city', 'cityname'] },
+  { key: 'CategoryName', label: '카테고리', required: true, aliases: ['카테고리', '분류', 'category', 'categoryname'] },
+  { key: 'PricingType', label: '가격 유형', aliases: ['가격 유형', '유형', 'pricingtype', 'type'] },
+  { key: 'Currency', label: '통화', aliases: ['통화', 'currency'] },
+  { key: 'Price_Adult', label: '가격 (성인)', aliases: ['가격 (성인)', '성인', '성인 가격', 'price_adult', 'adult'] },
+  { key: 'Price_Child', label: '가격 (아동)', aliases: ['가격 (아동)', '아동', '아동 가격', 'price_child', 'child'] },
+  { key: 'Price_Infant', label: '가격 (유아)', aliases: ['가격 (유아)', '유아', '유아 가격', 'price_infant', 'infant'] },
+  { key: 'Price_Unit', label: '가격 (단위)', aliases: ['가격 (단위)', '단위', '단위 가격', '단가', 'price_unit', 'unit'] },
+  { key: 'Cost_Adult', label: '원가 (성인)', aliases: ['원가 (성인)', '성인 원가', 'cost_adult'] },
+  { key: 'Cost_Child', label: '원가 (아동)', aliases: ['원가 (아동)', '아동 원가', 'cost_child'] },
+  { key: 'Cost_Infant', label: '원가 (유아)', aliases: ['원가 (유아)', '유아 원가', 'cost_infant'] },
+  { key: 'Cost_Unit', label: '원가 (단위)', aliases: ['원가 (단위)', '단위 원가', 'cost_unit'] },
+];
+
+// Keys of documents an import creates, one prefix per kind so a new country and a new
+// category with the same name never share a key. Existing documents are keyed by ID.
+const NEW_COUNTRY_PREFIX = 'newCountry:';
+const NEW_CITY_PREFIX = 'newCity:';
+const NEW_CATEGORY_PREFIX = 'newCategory:';
+
+// Maps each product field to the index of the sheet column it is read from.
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportOptions {
+  createMissing: boolean;
+  // Country for newly created cities when the row has no country column value.
+  defaultCountryId: string;
+}
+
+export interface ImportCatalog {
+  countries: Country[];
+  cities: City[];
+  categories: Category[];
+  products: Product[];
+}
+
+interface ProductDraft {
+  ProductName: string;
+  ProductDescription?: string;
+  ProductURL?: string;
+  PricingType?: PricingType;
+  Currency?: CurrencyCode;
+  prices: Partial<Record<PriceField, number>>;
+}
+
+export interface ImportRowPreview {
+  rowNumber: number; // 1-based row number in the sheet, header included
+  action: 'create' | 'update' | 'error';
+  errors: string[];
+  productName: string;
+  cityName: string;
+  categoryName: string;
+  draft?: ProductDraft;
+  cityKey?: string;
+  categoryKey?: string;
+  existingProduct?: Product;
+}
+
+export interface ImportPreview {
+  rows: ImportRowPreview[];
+  newCountries: string[];
+  newCities: { key: string; cityName: string; countryKey: string }[];
+  newCategories: string[];
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const cellText = (row: string[], index: number | undefined): string =>
+  index === undefined ? '' : String(row[index] ?? '').trim();
+
+const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[^0-9.\-]/g, '');
+  if (cleaned === '' || cleaned === '-' || cleaned === '.') return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const parsePricingType = (value: string): PricingType | null => {
+  const v = normalize(value).replace(/[\s_-]/g, '');
+  if (['perperson', '인당', '1인당', 'person'].includes(v)) return 'PerPerson';
+  if (['perunit', '단위당', '단위', 'unit'].includes(v)) return 'PerUnit';
+  return null;
+};
+
+const parseCurrency = (value: string): CurrencyCode | null => {
+  const v = value.trim().toUpperCase();
+  return CURRENCIES.find(c => c.code === v || c.symbol === value.trim())?.code ?? null;
+};
+
+/** Reads the first sheet of a CSV or XLSX file as text cells. */
+export const parseProductSheet = async (file: File): Promise<ParsedSheet> => {
+  const XLSX = await import('xlsx');
+  // Only the first sheet is parsed; the rest of an uploaded workbook is never read.
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', sheets: 0 });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) throw new Error('시트가 없는 파일입니다.');
+  const data = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[sheetName], { header: 1, raw: false, defval: '', blankrows: false });
+  const [headerRow = [], ...rows] = data;
+  return {
+    headers: headerRow.map(h => String(h).trim()),
+    rows: rows.filter(row => row.some(cell => String(cell).trim() !== '')).map(row => row.map(cell => String(cell))),
+  };
+};
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalizedHeaders = headers.map(normalize);
+  IMPORT_FIELDS.forEach(field => {
+    const index = normalizedHeaders.findIndex(header => header === normalize(field.key) || field.aliases.includes(header));
+    if (index >= 0 && !Object.values(mapping).includes(index)) {
+      mapping[field.key] = index;
+    }
+  });
+  return mapping;
+};
+
+/**
+ * Validates every row against the current catalog and decides whether it creates a
+ * new product or updates an existing one (same product name in the same city).
+ * Nothing is written here; the result is shown as a preview before committing.
+ */
+export const buildImportPreview = (sheet: ParsedSheet, mapping: ColumnMapping, catalog: ImportCatalog, options: ImportOptions): ImportPreview => {
+  const countriesByName = new Map(catalog.countries.map(c => [normalize(c.CountryName), c]));
+  const categoriesByName = new Map(catalog.categories.map(c => [normalize(c.CategoryName), c]));
+  const citiesByName = new Map<string, City[]>();
+  catalog.cities.forEach(city => {
+    const key = normalize(city.CityName);
+    citiesByName.set(key, [...(citiesByName.get(key) || []), city]);
+  });
+  const productsByKey = new Map(catalog.products.map(p => [`${p.CityRef.id}|${normalize(p.ProductName)}`, p]));
+  const defaultCountry = catalog.countries.find(c => c.id === options.defaultCountryId);
+
+  const newCountries = new Set<string>();
+  const newCities = new Map<string, { key: string; cityName: string; countryKey: string }>();
+  const newCategories = new Set<string>();
+  const seenKeys = new Map<string, number>();
+
+  const rows = sheet.rows.map((row, index): ImportRowPreview => {
+    const rowNumber = index + 2;
+    const errors: string[] = [];
+    const productName = cellText(row, mapping.ProductName);
+    const countryName = cellText(row, mapping.CountryName);
+    const cityName = cellText(row, mapping.CityName);
+    const categoryName = cellText(row, mapping.CategoryName);
+
+    if (!productName) errors.push('상품명이 없습니다.');
+
+    // Country: only needed to disambiguate cities or to create new ones.
+    let countryKey: string | undefined;
+    if (countryName) {
+      const country = countriesByName.get(normalize(countryName));
+      if (country) {
+        countryKey = country.id;
+      } else if (options.createMissing) {
+        countryKey = `${NEW_COUNTRY_PREFIX}${normalize(countryName)}`;
+      } else {
+        errors.push(`등록되지 않은 국가입니다: ${countryName}`);
+      }
+    } else if (defaultCountry) {
+      countryKey = defaultCountry.id;
+    }
+
+    let cityKey: string | undefined;
+    if (!cityName) {
+      errors.push('도시가 없습니다.');
+    } else {
+      const candidates = (citiesByName.get(normalize(cityName)) || [])
+        .filter(city => !countryName || !countryKey || city.CountryRef.id === countryKey);
+      if (candidates.length === 1) {
+        cityKey = candidates[0].id;
+      } else if (candidates.length > 1) {
+        errors.push(`같은 이름의 도시가 여러 국가에 있습니다: ${cityName} (국가 열을 지정하세요)`);
+      } else if (!options.createMissing) {
+        errors.push(`등록되지 않은 도시입니다: ${cityName}`);
+      } else if (!countryKey) {
+        errors.push(`새 도시 ${cityName}의 국가를 알 수 없습니다. 국가 열 또는 기본 국가를 지정하세요.`);
+      } else {
+        cityKey = `${NEW_CITY_PREFIX}${countryKey}|${normalize(cityName)}`;
+      }
+    }
+
+    let categoryKey: string | undefined;
+    if (!categoryName) {
+      errors.push('카테고리가 없습니다.');
+    } else {
+      const category = categoriesByName.get(normalize(categoryName));
+      if (category) {
+        categoryKey = category.id;
+      } else if (options.createMissing) {
+        categoryKey = `${NEW_CATEGORY_PREFIX}${normalize(categoryName)}`;
+      } else {
+        errors.push(`등록되지 않은 카테고리입니다: ${categoryName}`);
+      }
+    }
+
+    const existing = cityKey && !cityKey.startsWith(NEW_CITY_PREFIX) ? productsByKey.get(`${cityKey}|${normalize(productName)}`) : undefined;
+
+    const pricingTypeText = cellText(row, mapping.PricingType);
+    let pricingType: PricingType | undefined = existing?.PricingType;
+    if (pricingTypeText) {
+      const parsed = parsePricingType(pricingTypeText);
+      if (parsed) pricingType = parsed;
+      else errors.push(`알 수 없는 가격 유형입니다: ${pricingTypeText}`);
+    } else if (!existing) {
+      pricingType = 'PerPerson';
+    }
+
+    const currencyText = cellText(row, mapping.Currency);
+    let currency: CurrencyCode | undefined;
+    if (currencyText) {
+      const parsed = parseCurrency(currencyText);
+      if (parsed) currency = parsed;
+      else errors.push(`알 수 없는 통화입니다: ${currencyText}`);
+    }
+
+    const prices: Partial<Record<PriceField, number>> = {};
+    PRICE_FIELDS.forEach(field => {
+      const value = cellText(row, mapping[field]);
+      if (!value) return;
+      const parsed = parseNumber(value);
+      if (parsed === null || parsed < 0) {
+        errors.push(`${IMPORT_FIELDS.find(f => f.key === field)?.label} 값이 올바르지 않습니다: ${value}`);
+      } else {
+        prices[field] = parsed;
+      }
+    });
+
+    if (pricingType === 'PerPerson' && prices.Price_Adult === undefined && existing?.Price_Adult === undefined) {
+      errors.push('성인 가격이 없습니다.');
+    }
+    if (pricingType === 'PerUnit' && prices.Price_Unit === undefined && existing?.Price_Unit === undefined) {
+      errors.push('단위 가격이 없습니다.');
+    }
+
+    if (productName && cityKey) {
+      const duplicateKey = `${cityKey}|${normalize(productName)}`;
+      const firstRow = seenKeys.get(duplicateKey);
+      if (firstRow !== undefined) {
+        errors.push(`${firstRow}행과 중복된 상품입니다.`);
+      } else {
+        seenKeys.set(duplicateKey, rowNumber);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { rowNumber, action: 'error', errors, productName, cityName, categoryName };
+    }
+
+    if (countryKey?.startsWith(NEW_COUNTRY_PREFIX) && cityKey?.startsWith(NEW_CITY_PREFIX)) newCountries.add(countryName);
+    if (cityKey?.startsWith(NEW_CITY_PREFIX) && !newCities.has(cityKey)) {
+      newCities.set(cityKey, { key: cityKey, cityName, countryKey: countryKey! });
+    }
+    if (categoryKey?.startsWith(NEW_CATEGORY_PREFIX)) newCategories.add(categoryName);
+
+    const draft: ProductDraft = {
+      ProductName: productName,
+      prices,
+      ...(pricingType ? { PricingType: pricingType } : {}),
+      ...(currency ? { Currency: currency } : {}),
+    };
+    const description = cellText(row, mapping.ProductDescription);
+    const url = cellText(row, mapping.ProductURL);
+    if (description) draft.ProductDescription = description;
+    if (url) draft.ProductURL = url;
+
+    return {
+      rowNumber,
+      action: existing ? 'update' : 'create',
+      errors,
+      productName,
+      cityName,
+      categoryName,
+      draft,
+      cityKey,
+      categoryKey,
+      existingProduct: existing,
+    };
+  });
+
+  return {
+    rows,
+    newCountries: [...newCountries],
+    newCities: [...newCities.values()],
+    newCategories: [...newCategories],
+  };
+};
+
+/**
+ * Writes the valid rows of a preview: missing countries, cities and categories first,
+ * then the products, in chunked batches. Rows with errors are skipped.
+ */
+export const commitProductImport = async (
+  preview: ImportPreview,
+  onProgress: ProgressCallback
+): Promise<ImportResult> => {
+  const refs = new Map<string, DocumentReference>();
+  const resolveRef = (collectionName: string, key: string) =>
+    refs.get(key) || doc(db, collectionName, key);
+
+  const ops: WriteOp[] = [];
+
+  preview.newCountries.forEach(countryName => {
+    const ref = doc(collection(db, 'Countries'));
+    refs.set(`${NEW_COUNTRY_PREFIX}${normalize(countryName)}`, ref);
+    const data = { CountryName: countryName };
+    ops.push(batch => {
+      batch.set(ref, data);
+      addAuditEntry(batch, { action: 'create', collection: 'Countries', documentId: ref.id, documentName: countryName, after: data });
+    });
+  });
+  preview.newCities.forEach(city => {
+    const ref = doc(collection(db, 'Cities'));
+    refs.set(city.key, ref);
+    ops.push(batch => {
+      const data = { CityName: city.cityName, CountryRef: resolveRef('Countries', city.countryKey) };
+      batch.set(ref, data);
+      addAuditEntry(batch, { action: 'create', collection: 'Cities', documentId: ref.id, documentName: city.cityName, after: data });
+    });
+  });
+  preview.newCategories.forEach(categoryName => {
+    const ref = doc(collection(db, 'Categories'));
+    refs.set(`${NEW_CATEGORY_PREFIX}${normalize(categoryName)}`, ref);
+    const data = { CategoryName: categoryName };
+    ops.push(batch => {
+      batch.set(ref, data);
+      addAuditEntry(batch, { action: 'create', collection: 'Categories', documentId: ref.id, documentName: categoryName, after: data });
+    });
+  });
+
+  let created = 0;
+  let updated = 0;
+  preview.rows.forEach(row => {
+    if (row.action === 'error' || !row.draft || !row.cityKey || !row.categoryKey) return;
+    const { prices, ...fields } = row.draft;
+    const { cityKey, categoryKey, existingProduct } = row;
+    // Built inside the op so references to newly created cities and categories resolve.
+    const buildPayload = () => ({
+      ...fields,
+      ...prices,
+      CityRef: resolveRef('Cities', cityKey),
+      CategoryRef: resolveRef('Categories', categoryKey),
+      LastModified: serverTimestamp(),
+    });
+    if (existingProduct) {
+      const ref = doc(db, 'Products', existingProduct.id);
+      ops.push(batch => {
+        const payload = buildPayload();
+        batch.update(ref, payload);
+        addAuditEntry(batch, { action: 'update', collection: 'Products', documentId: ref.id, documentName: fields.ProductName, before: existingProduct, after: payload });
+      });
+      updated++;
+    } else {
+      const ref = doc(collection(db, 'Products'));
+      ops.push(batch => {
+        const payload = { Currency: BASE_CURRENCY, ...buildPayload() };
+        batch.set(ref, payload);
+        addAuditEntry(batch, { action: 'create', collection: 'Products', documentId: ref.id, documentName: fields.ProductName, after: payload });
+      });
+      created++;
+    }
+  });
+
+  await commitInChunks(ops, onProgress);
+
+  return { created, updated };
+};
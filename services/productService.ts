@@ -0,0 +1,28 @@
+import { db } from '../firebase';
+import { collection, getDocs, DocumentSnapshot, DocumentData } from 'firebase/firestore';
+import { Category, Product } from '../types';
+
+export type CategoryMap = Map<string, Omit<Category, 'id'>>;
+
+export const loadCategoryMap = async (): Promise<CategoryMap> => {
+  const snapshot = await getDocs(collection(db, 'Categories'));
+  const categoryMap: CategoryMap = new Map();
+  snapshot.forEach(d => categoryMap.set(d.id, d.data() as Omit<Category, 'id'>));
+  return categoryMap;
+};
+
+/** A product as added to a quote: with its category name and default markup filled in. */
+export const toQuoteProduct = (snapshot: DocumentSnapshot<DocumentData>, categoryMap: CategoryMap): Product => {
+  const productData = snapshot.data() as Omit<Product, 'id'>;
+  const categoryId = productData.CategoryRef?.id;
+  const category = categoryMap.get(categoryId);
+  const enriched: Product = {
+    id: snapshot.id,
+    ...productData,
+    CategoryName: category?.CategoryName || '미분류',
+  };
+  if (category?.DefaultMarkupPercent !== undefined) {
+    enriched.CategoryMarkupPercent = category.DefaultMarkupPercent;
+  }
+  return enriched;
+};
@@ -0,0 +1,128 @@
+import { Quote, QuoteItem } from '../types';
+import { getItemPriceLines, ItemPriceLine } from './quoteItemService';
+
+export type PaxField = 'adults' | 'children' | 'infants';
+
+export interface PaxChange {
+  field: PaxField;
+  before: number;
+  after: number;
+}
+
+export interface QuoteItemChange {
+  before: QuoteItem;
+  after: QuoteItem;
+  quantityChanged: boolean;
+  appliedPriceChanged: boolean;
+}
+
+export type DayDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface QuoteDayDiff {
+  dayId: string;
+  status: DayDiffStatus;
+  // 1-based day numbers in each quote; undefined when the day doesn't exist on that side.
+  beforeDayNumber?: number;
+  afterDayNumber?: number;
+  addedItems: QuoteItem[];
+  removedItems: QuoteItem[];
+  changedItems: QuoteItemChange[];
+  unchangedItems: QuoteItem[];
+  dayTotalBefore: number;
+  dayTotalAfter: number;
+}
+
+export interface QuoteDiff {
+  paxChanges: PaxChange[];
+  days: QuoteDayDiff[];
+  grandTotalBefore: number;
+  grandTotalAfter: number;
+}
+
+const PAX_FIELDS: PaxField[] = ['adults', 'children', 'infants'];
+
+// One comparable string per item, covering every pax type line with its label.
+const lineSignature = (lines: ItemPriceLine[], field: 'quantity' | 'unitPrice') =>
+  lines.map(line => `${line.label ?? ''}:${line[field]}`).join('|');
+
+/**
+ * Compares two versions of a quote. Days and items are matched by their IDs,
+ * which stay stable across saves; an item moved to another day shows up as
+ * removed from one day and added to the other.
+ */
+export const diffQuotes = (before: Quote, after: Quote): QuoteDiff => {
+  const paxChanges = PAX_FIELDS
+    .filter(field => before.info.pax[field] !== after.info.pax[field])
+    .map(field => ({ field, before: before.info.pax[field], after: after.info.pax[field] }));
+
+  const beforeDays = new Map(before.days.map((day, index) => [day.id, { day, index }]));
+  const afterDays = new Map(after.days.map((day, index) => [day.id, { day, index }]));
+
+  // Keep the order of the newer quote and append days that only existed before.
+  const dayIds = [
+    ...after.days.map(d => d.id),
+    ...before.days.map(d => d.id).filter(id => !afterDays.has(id)),
+  ];
+
+  const days = dayIds.map((dayId): QuoteDayDiff => {
+    const beforeEntry = beforeDays.get(dayId);
+    const afterEntry = afterDays.get(dayId);
+    const beforeItems = beforeEntry?.day.items || [];
+    const afterItems = afterEntry?.day.items || [];
+    const beforeItemMap = new Map(beforeItems.map(item => [item.id, item]));
+    const afterItemIds = new Set(afterItems.map(item => item.id));
+
+    const addedItems: QuoteItem[] = [];
+    const changedItems: QuoteItemChange[] = [];
+    const unchangedItems: QuoteItem[] = [];
+
+    afterItems.forEach(item => {
+      const previous = beforeItemMap.get(item.id);
+      if (!previous) {
+        addedItems.push(item);
+        return;
+      }
+      const previousLines = getItemPriceLines(previous);
+      const lines = getItemPriceLines(item);
+      const quantityChanged = lineSignature(previousLines, 'quantity') !== lineSignature(lines, 'quantity');
+      const appliedPriceChanged = lineSignature(previousLines, 'unitPrice') !== lineSignature(lines, 'unitPrice');
+      if (quantityChanged || appliedPriceChanged) {
+        changedItems.push({ before: previous, after: item, quantityChanged, appliedPriceChanged });
+      } else {
+        unchangedItems.push(item);
+      }
+    });
+    const removedItems = beforeItems.filter(item => !afterItemIds.has(item.id));
+
+    let status: DayDiffStatus;
+    if (!beforeEntry) {
+      status = 'added';
+    } else if (!afterEntry) {
+      status = 'removed';
+    } else if (addedItems.length || removedItems.length || changedItems.length || beforeEntry.index !== afterEntry.index) {
+      status = 'changed';
+    } else {
+      status = 'unchanged';
+    }
+
+    return {
+      dayId,
+      status,
+      beforeDayNumber: beforeEntry ? beforeEntry.index + 1 : undefined,
+      afterDayNumber: afterEntry ? afterEntry.index + 1 : undefined,
+      addedItems,
+      removedItems,
+      changedItems,
+      unchangedItems,
+      dayTotalBefore: beforeEntry?.day.dayTotal || 0,
+      dayTotalAfter: afterEntry?.day.dayTotal || 0,
+    };
+  });
+
+  return {
+    paxChanges,
+    days,
+    grandTotalBefore: before.grandTotal,
+    grandTotalAfter: after.grandTotal,
+  };
+};
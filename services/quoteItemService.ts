@@ -0,0 +1,48 @@
+import { PaxType, QuoteInfo, QuoteItem } from '../types';
+
+// Sell-side helpers for quote items, shared by the builder and the customer-facing
+// exports. Nothing here may read costPrice or other internal fields.
+
+export const PAX_TYPES: PaxType[] = ['adult', 'child', 'infant'];
+
+export const PAX_TYPE_LABELS: Record<PaxType, string> = {
+  adult: '성인',
+  child: '아동',
+  infant: '유아',
+};
+
+// The QuoteInfo.pax field counting the travellers of each pax type.
+export const PAX_COUNT_FIELDS: Record<PaxType, keyof QuoteInfo['pax']> = { adult: 'adults', child: 'children', infant: 'infants' };
+
+export interface ItemPriceLine {
+  label?: string; // Pax type label; unset for unit-priced items
+  quantity: number;
+  unitPrice: number;
+}
+
+/**
+ * The quantity × unit price lines an item is charged by: one per pax type with
+ * travellers for PerPerson items, or a single unlabelled line otherwise.
+ */
+export const getItemPriceLines = (item: QuoteItem): ItemPriceLine[] => {
+  if (!item.paxLines) {
+    return [{ quantity: item.quantity, unitPrice: item.appliedPrice }];
+  }
+  return item.paxLines
+    .filter(line => line.quantity > 0)
+    .map(line => ({ label: PAX_TYPE_LABELS[line.paxType], quantity: line.quantity, unitPrice: line.unitPrice }));
+};
+
+/** Sums the lines of an item without averaging, so each pax type keeps its exact price. */
+export const calculateItemTotal = (item: QuoteItem): number => {
+  return getItemPriceLines(item).reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+};
+
+/** "성인 4 × ₩50,000 + 아동 2 × ₩30,000", or "2 × ₩50,000" for unit-priced items. */
+export const formatItemBreakdown = (item: QuoteItem, formatPrice: (amount: number) => string): string => {
+  const lines = getItemPriceLines(item);
+  if (lines.length === 0) return '0명';
+  return lines
+    .map(line => `${line.label ? `${line.label} ` : ''}${line.quantity} × ${formatPrice(line.unitPrice)}`)
+    .join(' + ');
+};
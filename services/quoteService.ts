@@ -0,0 +1,99 @@
+import { db } from '../firebase';
+import { collection, doc, getDoc, getDocs, query, orderBy, runTransaction, serverTimestamp } from 'firebase/firestore';
+import { Quote, SavedQuote, QuoteRevision } from '../types';
+
+export const QUOTES_COLLECTION = 'Quotes';
+const REVISIONS_SUBCOLLECTION = 'Revisions';
+
+// Revision documents are keyed by their zero-padded version so they sort naturally
+// and a concurrent save can never overwrite an existing revision.
+const revisionDocId = (version: number) => `v${String(version).padStart(4, '0')}`;
+
+// Firestore rejects `undefined` field values, so optional fields that were never set
+// (e.g. ProductDescription on a product snapshot) are dropped before writing.
+// References and Timestamps are kept as-is.
+export const stripUndefined = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(stripUndefined) as T;
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.entries(value).reduce((acc, [key, v]: [string, unknown]) => {
+      if (v !== undefined) {
+        acc[key] = stripUndefined(v);
+      }
+      return acc;
+    }, {} as Record<string, unknown>) as T;
+  }
+  return value;
+};
+
+const toQuotePayload = (quote: Quote) => stripUndefined({
+  info: quote.info,
+  days: quote.days,
+  adjustments: quote.adjustments,
+  grandTotal: quote.grandTotal,
+  priceTiers: quote.priceTiers,
+});
+
+/**
+ * Saves the quote to the `Quotes` collection and records the saved state as a new
+ * immutable revision (v1, v2, …).
+ * Creates a new document when `quoteId` is not given and returns the document ID.
+ */
+export const saveQuote = async (quote: Quote, quoteId?: string | null): Promise<string> => {
+  const payload = toQuotePayload(quote);
+  const quoteRef = quoteId ? doc(db, QUOTES_COLLECTION, quoteId) : doc(collection(db, QUOTES_COLLECTION));
+
+  await runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(quoteRef);
+    const version = ((snapshot.exists() ? snapshot.data().CurrentVersion : 0) || 0) + 1;
+
+    transaction.set(doc(quoteRef, REVISIONS_SUBCOLLECTION, revisionDocId(version)), {
+      ...payload,
+      Version: version,
+      CreatedAt: serverTimestamp(),
+    });
+
+    if (snapshot.exists()) {
+      transaction.update(quoteRef, {
+        ...payload,
+        CurrentVersion: version,
+        UpdatedAt: serverTimestamp(),
+      });
+    } else {
+      transaction.set(quoteRef, {
+        ...payload,
+        CurrentVersion: version,
+        CreatedAt: serverTimestamp(),
+        UpdatedAt: serverTimestamp(),
+      });
+    }
+  });
+
+  return quoteRef.id;
+};
+
+export const loadQuote = async (quoteId: string): Promise<SavedQuote | null> => {
+  const snapshot = await getDoc(doc(db, QUOTES_COLLECTION, quoteId));
+  if (!snapshot.exists()) return null;
+  return { id: snapshot.id, ...snapshot.data() } as SavedQuote;
+};
+
+export const loadQuoteRevisions = async (quoteId: string): Promise<QuoteRevision[]> => {
+  const revisionsQuery = query(
+    collection(db, QUOTES_COLLECTION, quoteId, REVISIONS_SUBCOLLECTION),
+    orderBy('Version', 'desc')
+  );
+  const snapshot = await getDocs(revisionsQuery);
+  return snapshot.docs.map(d => ({ id: d.id, ...d.data() } as QuoteRevision));
+};
+
+/**
+ * Makes an old revision the current quote. History stays append-only: the restored
+ * content is saved as the next revision rather than rewinding the version counter.
+ */
+export const restoreQuoteRevision = async (quoteId: string, revision: QuoteRevision): Promise<Quote> => {
+  const restored: Quote = { info: revision.info, days: revision.days, adjustments: revision.adjustments, grandTotal: revision.grandTotal, priceTiers: revision.priceTiers };
+  await saveQuote(restored, quoteId);
+  return restored;
+};
@@ -0,0 +1,153 @@
+import { PaxType, Quote, QuoteAdjustment, QuoteDay, QuoteInfo } from '../types';
+import { BASE_CURRENCY, roundMoney } from './currencyService';
+import { addDays, formatDayLabel } from './itineraryService';
+import { PAX_COUNT_FIELDS } from './quoteItemService';
+
+// Customer-facing totals: discounts, surcharges, tax and the payment schedule.
+// Only sell amounts are used here.
+
+export const DEFAULT_TAX_LABEL = '부가세';
+
+export interface AdjustmentAmount {
+  adjustment: QuoteAdjustment;
+  amount: number; // Signed: negative for discounts
+}
+
+export interface QuoteTotals {
+  subtotal: number; // Sum of the day totals
+  beforeTax: AdjustmentAmount[];
+  taxableAmount: number;
+  taxAmount: number;
+  afterTax: AdjustmentAmount[];
+  total: number;
+}
+
+export interface TotalLine {
+  label: string;
+  amount: number;
+  isTotal?: boolean;
+}
+
+export interface PaymentScheduleAmounts {
+  deposit: number;
+  depositDueDate?: string;
+  balance: number;
+  balanceDueDate?: string;
+}
+
+/**
+ * Computes the amount payable. Percentages apply to the item total of their scope
+ * (one day or the whole quote); after-tax percentages apply to that total with tax
+ * included. Adjustments whose day no longer exists are ignored.
+ */
+export const calculateQuoteTotals = (
+  info: QuoteInfo,
+  days: QuoteDay[],
+  adjustments: QuoteAdjustment[] = []
+): QuoteTotals => {
+  const currency = info.currency || BASE_CURRENCY;
+  const taxRate = (info.taxPercent || 0) / 100;
+  const subtotal = days.reduce((sum, day) => sum + day.dayTotal, 0);
+
+  const amountOf = (adjustment: QuoteAdjustment): AdjustmentAmount | null => {
+    const scopeTotal = adjustment.dayId ? days.find(d => d.id === adjustment.dayId)?.dayTotal : subtotal;
+    if (scopeTotal === undefined) return null;
+    const base = adjustment.afterTax ? scopeTotal * (1 + taxRate) : scopeTotal;
+    const magnitude = adjustment.valueType === 'percent'
+      ? roundMoney(base * adjustment.value / 100, currency)
+      : adjustment.value;
+    return { adjustment, amount: adjustment.kind === 'discount' ? -magnitude : magnitude };
+  };
+
+  const amounts = adjustments.map(amountOf).filter((a): a is AdjustmentAmount => a !== null);
+  const beforeTax = amounts.filter(a => !a.adjustment.afterTax);
+  const afterTax = amounts.filter(a => a.adjustment.afterTax);
+
+  const taxableAmount = subtotal + beforeTax.reduce((sum, a) => sum + a.amount, 0);
+  const taxAmount = roundMoney(taxableAmount * taxRate, currency);
+  const total = taxableAmount + taxAmount + afterTax.reduce((sum, a) => sum + a.amount, 0);
+
+  return { subtotal, beforeTax, taxableAmount, taxAmount, afterTax, total };
+};
+
+/**
+ * What one traveller of each pax type pays. Items priced per pax type add their line
+ * total split over the travellers of that type, so an edited quantity is shared too;
+ * with no travellers of a type, its unit price. Every other item (vans, guides, …) is
+ * shared evenly by the paying pax, adults and children. Adjustments and tax are spread
+ * in proportion to the subtotal.
+ */
+export const calculatePerPersonPrices = (info: QuoteInfo, days: QuoteDay[], totals: QuoteTotals): Record<PaxType, number> => {
+  const perPerson: Record<PaxType, number> = { adult: 0, child: 0, infant: 0 };
+  let shared = 0;
+  days.forEach(day => day.items.forEach(item => {
+    if (item.paxLines) {
+      item.paxLines.forEach(line => {
+        const paxCount = info.pax[PAX_COUNT_FIELDS[line.paxType]];
+        perPerson[line.paxType] += paxCount > 0 ? line.unitPrice * line.quantity / paxCount : line.unitPrice;
+      });
+    } else {
+      shared += item.total;
+    }
+  }));
+
+  const sharedPerPayingPax = shared / Math.max(1, info.pax.adults + info.pax.children);
+  const factor = totals.subtotal !== 0 ? totals.total / totals.subtotal : 1;
+  return {
+    adult: roundMoney((perPerson.adult + sharedPerPayingPax) * factor, info.currency),
+    child: roundMoney((perPerson.child + sharedPerPayingPax) * factor, info.currency),
+    infant: roundMoney(perPerson.infant * factor, info.currency),
+  };
+};
+
+/** Splits the total into a deposit and a balance, or returns null without a schedule. */
+export const calculatePaymentSchedule = (info: QuoteInfo, total: number): PaymentScheduleAmounts | null => {
+  const schedule = info.paymentSchedule;
+  if (!schedule) return null;
+  const deposit = roundMoney(total * schedule.depositPercent / 100, info.currency);
+  const balanceDueDate = info.departureDate && schedule.balanceDueDaysBeforeDeparture !== undefined
+    ? addDays(info.departureDate, -schedule.balanceDueDaysBeforeDeparture)
+    : undefined;
+  return { deposit, depositDueDate: schedule.depositDueDate, balance: total - deposit, balanceDueDate };
+};
+
+/** "조기 예약 할인 (5%)" or "[2일차] 유류 할증", as shown on the quote and in exports. */
+export const formatAdjustmentLabel = (adjustment: QuoteAdjustment, days: QuoteDay[], departureDate?: string): string => {
+  const dayIndex = adjustment.dayId ? days.findIndex(d => d.id === adjustment.dayId) : -1;
+  const scope = dayIndex >= 0 ? `[${formatDayLabel(departureDate, dayIndex)}] ` : '';
+  const fallback = adjustment.kind === 'discount' ? '할인' : '추가 요금';
+  const rate = adjustment.valueType === 'percent' ? ` (${adjustment.value}%)` : '';
+  return `${scope}${adjustment.label.trim() || fallback}${rate}`;
+};
+
+export const formatTaxLabel = (info: QuoteInfo): string => `${info.taxLabel || DEFAULT_TAX_LABEL} (${info.taxPercent || 0}%)`;
+
+/** Deposit and balance rows, labelled like "계약금 30% (2026-10-30까지)". */
+export const getPaymentScheduleLines = (info: QuoteInfo, amounts: PaymentScheduleAmounts): TotalLine[] => {
+  const due = (date?: string) => date ? ` (${date}까지)` : '';
+  return [
+    { label: `계약금 ${info.paymentSchedule?.depositPercent ?? 0}%${due(amounts.depositDueDate)}`, amount: amounts.deposit },
+    { label: `잔금${due(amounts.balanceDueDate)}`, amount: amounts.balance },
+  ];
+};
+
+/**
+ * The rows that lead from the item subtotal to the amount payable, for the exports.
+ * A quote without adjustments or tax only has the total row.
+ */
+export const getTotalLines = (quote: Quote): TotalLine[] => {
+  const totals = calculateQuoteTotals(quote.info, quote.days, quote.adjustments);
+  const toLine = ({ adjustment, amount }: AdjustmentAmount): TotalLine => ({
+    label: formatAdjustmentLabel(adjustment, quote.days, quote.info.departureDate),
+    amount,
+  });
+  const lines: TotalLine[] = [];
+  if (totals.beforeTax.length || totals.afterTax.length || quote.info.taxPercent) {
+    lines.push({ label: '소계', amount: totals.subtotal });
+    lines.push(...totals.beforeTax.map(toLine));
+    if (quote.info.taxPercent) lines.push({ label: formatTaxLabel(quote.info), amount: totals.taxAmount });
+    lines.push(...totals.afterTax.map(toLine));
+  }
+  lines.push({ label: '총 합계', amount: totals.total, isTotal: true });
+  return lines;
+};
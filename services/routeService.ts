@@ -0,0 +1,89 @@
+// Hash-based routes, e.g. "#/quote/abc123" or "#/admin/products?city=xyz". Hash URLs work
+// on any static host without rewrite rules.
+
+export type AdminTab = 'Products' | 'Categories' | 'Cities' | 'Countries' | 'ExchangeRates' | 'PackageTemplates' | 'Backup' | 'Trash' | 'AuditLogs' | 'Users';
+
+export interface ProductFilters {
+  cityId: string;
+  categoryId: string;
+}
+
+export interface AdminRoute {
+  page: 'admin';
+  tab: AdminTab;
+  productFilters: ProductFilters; // Products tab only
+}
+
+export type AppRoute =
+  | { page: 'quote'; quoteId: string | null } // The builder; a saved quote when quoteId is set
+  | { page: 'quotes' }
+  | AdminRoute
+  | { page: 'share'; token: string }; // Customer view of a shared quote, no sign-in needed
+
+const ADMIN_TAB_PATHS: Record<AdminTab, string> = {
+  Products: 'products',
+  Categories: 'categories',
+  Cities: 'cities',
+  Countries: 'countries',
+  ExchangeRates: 'exchange-rates',
+  PackageTemplates: 'packages',
+  Backup: 'backup',
+  Trash: 'trash',
+  AuditLogs: 'audit-logs',
+  Users: 'users',
+};
+
+export const DEFAULT_ROUTE: AppRoute = { page: 'quote', quoteId: null };
+
+export const EMPTY_PRODUCT_FILTERS: ProductFilters = { cityId: '', categoryId: '' };
+
+export const adminRoute = (tab: AdminTab, productFilters: ProductFilters = EMPTY_PRODUCT_FILTERS): AdminRoute => ({
+  page: 'admin',
+  tab,
+  productFilters,
+});
+
+/** Reads a route from a location hash. Unknown paths fall back to a new quote. */
+export const parseRoute = (hash: string): AppRoute => {
+  const [path, queryString = ''] = hash.replace(/^#/, '').split('?');
+  const [section, id] = path.split('/').filter(Boolean).map(decodeURIComponent);
+  const params = new URLSearchParams(queryString);
+
+  switch (section) {
+    case 'quote':
+      return { page: 'quote', quoteId: id || null };
+    case 'quotes':
+      return { page: 'quotes' };
+    case 'share':
+      return id ? { page: 'share', token: id } : DEFAULT_ROUTE;
+    case 'admin': {
+      const tab = (Object.keys(ADMIN_TAB_PATHS) as AdminTab[]).find(key => ADMIN_TAB_PATHS[key] === id) ?? 'Products';
+      return adminRoute(tab, tab === 'Products'
+        ? { cityId: params.get('city') || '', categoryId: params.get('category') || '' }
+        : EMPTY_PRODUCT_FILTERS);
+    }
+    default:
+      return DEFAULT_ROUTE;
+  }
+};
+
+/** The location hash for a route, the inverse of `parseRoute`. */
+export const formatRoute = (route: AppRoute): string => {
+  switch (route.page) {
+    case 'quote':
+      return route.quoteId ? `#/quote/${encodeURIComponent(route.quoteId)}` : '#/quote';
+    case 'quotes':
+      return '#/quotes';
+    case 'share':
+      return `#/share/${encodeURIComponent(route.token)}`;
+    case 'admin': {
+      const params = new URLSearchParams();
+      if (route.tab === 'Products') {
+        if (route.productFilters.cityId) params.set('city', route.productFilters.cityId);
+        if (route.productFilters.categoryId) params.set('category', route.productFilters.categoryId);
+      }
+      const queryString = params.toString();
+      return `#/admin/${ADMIN_TAB_PATHS[route.tab]}${queryString ? `?${queryString}` : ''}`;
+    }
+  }
+};
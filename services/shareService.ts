@@ -0,0 +1,146 @@
+import { db, auth } from '../firebase';
+import { doc, getDoc, runTransaction, writeBatch, deleteField, serverTimestamp } from 'firebase/firestore';
+import { CustomerResponseStatus, Quote, QuoteInfo, QuoteItem, SavedQuote, SharedQuote } from '../types';
+import { QUOTES_COLLECTION, stripUndefined } from './quoteService';
+import { formatRouteSummary, withDayLocations } from './itineraryService';
+
+// Read-only customer links to saved quotes. The customer sees a copy in SharedQuotes
+// keyed by a random token, never the quote document itself, so internal fields
+// (costs, markups, exchange rates) can't reach them.
+
+export const SHARED_QUOTES_COLLECTION = 'SharedQuotes';
+
+// 192 random bits, hex-encoded
+const createShareToken = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Keeps what the customer document shows: names, descriptions, links and sell prices.
+const toCustomerItem = ({ id, product, quantity, appliedPrice, paxLines, total }: QuoteItem): QuoteItem => ({
+  id,
+  product: {
+    id: product.id,
+    ProductName: product.ProductName,
+    ProductDescription: product.ProductDescription,
+    ProductURL: product.ProductURL,
+    CityRef: product.CityRef,
+    CategoryRef: product.CategoryRef,
+    PricingType: product.PricingType,
+    CityName: product.CityName,
+    CategoryName: product.CategoryName,
+  },
+  quantity,
+  appliedPrice,
+  paxLines: paxLines?.map(({ paxType, quantity, unitPrice }) => ({ paxType, quantity, unitPrice })),
+  total,
+});
+
+// Keeps the customer-facing quote details. New QuoteInfo fields stay internal until listed here.
+const toCustomerInfo = ({
+  customerName,
+  countryId,
+  cityId,
+  pax,
+  currency,
+  terms,
+  departureDate,
+  validUntil,
+  taxLabel,
+  taxPercent,
+  paymentSchedule,
+  includePriceTiers,
+}: QuoteInfo): QuoteInfo => ({
+  customerName,
+  countryId,
+  cityId,
+  pax: { adults: pax.adults, children: pax.children, infants: pax.infants },
+  currency,
+  terms,
+  departureDate,
+  validUntil,
+  taxLabel,
+  taxPercent,
+  paymentSchedule: paymentSchedule && {
+    depositPercent: paymentSchedule.depositPercent,
+    depositDueDate: paymentSchedule.depositDueDate,
+    balanceDueDaysBeforeDeparture: paymentSchedule.balanceDueDaysBeforeDeparture,
+  },
+  includePriceTiers,
+});
+
+/** The quote without its internal fields. */
+export const toCustomerQuote = (quote: Quote): Quote => {
+  return {
+    info: toCustomerInfo(quote.info),
+    days: withDayLocations(quote.info, quote.days).map(day => ({ ...day, items: day.items.map(toCustomerItem) })),
+    adjustments: quote.adjustments,
+    grandTotal: quote.grandTotal,
+    priceTiers: quote.priceTiers,
+  };
+};
+
+/**
+ * Shares the saved version of the quote, not unsaved builder changes. A quote keeps its
+ * token when it is shared again, so the link the customer has shows the latest version.
+ * Returns the token.
+ */
+export const shareQuote = async (quoteId: string): Promise<string> => {
+  const quoteRef = doc(db, QUOTES_COLLECTION, quoteId);
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(quoteRef);
+    if (!snapshot.exists()) throw new Error('견적을 찾을 수 없습니다.');
+    const quote = { id: snapshot.id, ...snapshot.data() } as SavedQuote;
+    const token = quote.ShareToken || createShareToken();
+    const customerQuote = toCustomerQuote(quote);
+
+    // Overwriting drops the previous version's response from the copy; the quote keeps it.
+    transaction.set(doc(db, SHARED_QUOTES_COLLECTION, token), stripUndefined({
+      ...customerQuote,
+      QuoteId: quoteId,
+      Version: quote.CurrentVersion || 1,
+      Destination: customerQuote.days.some(day => day.cityId) ? formatRouteSummary(customerQuote.days) : undefined,
+      SharedBy: auth.currentUser?.email ?? '',
+      SharedAt: serverTimestamp(),
+    }));
+    transaction.update(quoteRef, { ShareToken: token });
+    return token;
+  });
+};
+
+/** Disables the link. Sharing again afterwards creates a new token. */
+export const stopSharingQuote = async (quoteId: string, token: string): Promise<void> => {
+  const batch = writeBatch(db);
+  batch.delete(doc(db, SHARED_QUOTES_COLLECTION, token));
+  batch.update(doc(db, QUOTES_COLLECTION, quoteId), { ShareToken: deleteField() });
+  await batch.commit();
+};
+
+export const loadSharedQuote = async (token: string): Promise<SharedQuote | null> => {
+  const snapshot = await getDoc(doc(db, SHARED_QUOTES_COLLECTION, token));
+  if (!snapshot.exists()) return null;
+  return { id: snapshot.id, ...snapshot.data() } as SharedQuote;
+};
+
+/**
+ * Records the customer's answer on the shared copy and on the quote, where the sales
+ * agent sees it. Works without signing in; the rules only allow this field to change,
+ * once per shared version, with the shared version and a server timestamp.
+ */
+export const respondToSharedQuote = async (shared: SharedQuote, status: CustomerResponseStatus, message: string): Promise<void> => {
+  const response = stripUndefined({
+    Status: status,
+    Message: message.trim() || undefined,
+    Version: shared.Version,
+    ShareToken: shared.id,
+  });
+  const batch = writeBatch(db);
+  batch.update(doc(db, SHARED_QUOTES_COLLECTION, shared.id), { Response: { ...response, RespondedAt: serverTimestamp() } });
+  batch.update(doc(db, QUOTES_COLLECTION, shared.QuoteId), { CustomerResponse: { ...response, RespondedAt: serverTimestamp() } });
+  await batch.commit();
+};
+
+export const CUSTOMER_RESPONSE_LABELS: Record<CustomerResponseStatus, string> = {
+  accepted: '수락',
+  changesRequested: '변경 요청',
+};
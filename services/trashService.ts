@@ -0,0 +1,310 @@
+import { auth, db } from '../firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+  serverTimestamp,
+  deleteField,
+  DocumentData,
+  QueryDocumentSnapshot,
+  WriteBatch,
+} from 'firebase/firestore';
+import { AuditCascadeEntry, TrashEntry } from '../types';
+import { addAuditEntry, loadCascadeChunks, setCascadeChunks } from './auditService';
+import { commitInChunks, WriteOp, ProgressCallback } from './batchService';
+
+export type TrashCollection = 'Countries' | 'Cities' | 'Categories' | 'Products';
+
+// Trashed documents can be purged permanently once they have been in the trash this long.
+export const TRASH_RETENTION_DAYS = 30;
+
+const TRASH_COLLECTIONS: TrashCollection[] = ['Countries', 'Cities', 'Categories', 'Products'];
+
+const NAME_FIELDS: Record<TrashCollection, string> = {
+  Countries: 'CountryName',
+  Cities: 'CityName',
+  Categories: 'CategoryName',
+  Products: 'ProductName',
+};
+
+// Parents that must not be in the trash for a document to be restored on its own.
+const PARENT_FIELDS: Record<TrashCollection, { field: string; collection: TrashCollection }[]> = {
+  Countries: [],
+  Cities: [{ field: 'CountryRef', collection: 'Countries' }],
+  Categories: [],
+  Products: [
+    { field: 'CityRef', collection: 'Cities' },
+    { field: 'CategoryRef', collection: 'Categories' },
+  ],
+};
+
+// Direct children that can be moved to another parent instead of going to the trash.
+export const REASSIGNABLE_CHILDREN: Partial<Record<TrashCollection, { collection: TrashCollection; field: string }>> = {
+  Countries: { collection: 'Cities', field: 'CountryRef' },
+  Cities: { collection: 'Products', field: 'CityRef' },
+  Categories: { collection: 'Products', field: 'CategoryRef' },
+};
+
+const IN_QUERY_CHUNK_SIZE = 30; // Firestore's limit for 'in' filters
+
+const toEntry = (collectionName: TrashCollection, snapshot: QueryDocumentSnapshot<DocumentData>): AuditCascadeEntry => ({
+  Collection: collectionName,
+  DocumentId: snapshot.id,
+  DocumentName: snapshot.data()[NAME_FIELDS[collectionName]],
+});
+
+const isLive = (snapshot: QueryDocumentSnapshot<DocumentData>) => !snapshot.data().DeletedAt;
+
+const findProducts = async (field: 'CityRef' | 'CategoryRef', parentCollection: TrashCollection, parentIds: string[]) => {
+  const results: QueryDocumentSnapshot<DocumentData>[] = [];
+  for (let i = 0; i < parentIds.length; i += IN_QUERY_CHUNK_SIZE) {
+    const chunk = parentIds.slice(i, i + IN_QUERY_CHUNK_SIZE);
+    const productsQuery = query(collection(db, 'Products'), where(field, 'in', chunk.map(id => doc(db, parentCollection, id))));
+    const snapshot = await getDocs(productsQuery);
+    results.push(...snapshot.docs.filter(isLive));
+  }
+  return results;
+};
+
+/**
+ * Lists the live child documents that go to the trash together with a document:
+ * a country takes its cities and their products, a city or category its products.
+ * Children that were already trashed on their own keep their separate trash entry.
+ * Also used to preview the impact of a delete before confirming it.
+ */
+export const findCascadeChildren = async (collectionName: TrashCollection, id: string): Promise<AuditCascadeEntry[]> => {
+  switch (collectionName) {
+    case 'Countries': {
+      const citiesSnapshot = await getDocs(query(collection(db, 'Cities'), where('CountryRef', '==', doc(db, 'Countries', id))));
+      const cities = citiesSnapshot.docs.filter(isLive);
+      const products = await findProducts('CityRef', 'Cities', cities.map(c => c.id));
+      return [...cities.map(c => toEntry('Cities', c)), ...products.map(p => toEntry('Products', p))];
+    }
+    case 'Cities':
+      return (await findProducts('CityRef', 'Cities', [id])).map(p => toEntry('Products', p));
+    case 'Categories':
+      return (await findProducts('CategoryRef', 'Categories', [id])).map(p => toEntry('Products', p));
+    default:
+      return [];
+  }
+};
+
+/**
+ * Moves the live direct children of a document (a country's cities, or a city's or
+ * category's products) to another parent, so they survive when it is trashed.
+ * Safe to re-run: only children still pointing at the old parent are updated.
+ */
+export const reassignChildren = async (
+  collectionName: TrashCollection,
+  id: string,
+  targetId: string,
+  onProgress?: ProgressCallback
+): Promise<void> => {
+  const child = REASSIGNABLE_CHILDREN[collectionName];
+  if (!child) return;
+  if (targetId === id) throw new Error('같은 항목으로는 옮길 수 없습니다.');
+
+  const oldRef = doc(db, collectionName, id);
+  const newRef = doc(db, collectionName, targetId);
+  const snapshot = await getDocs(query(collection(db, child.collection), where(child.field, '==', oldRef)));
+
+  const ops: WriteOp[] = snapshot.docs.filter(isLive).map(childDoc => batch => {
+    batch.update(childDoc.ref, { [child.field]: newRef, LastModified: serverTimestamp() });
+    addAuditEntry(batch, {
+      action: 'update',
+      collection: child.collection,
+      documentId: childDoc.id,
+      documentName: childDoc.data()[NAME_FIELDS[child.collection]],
+      before: { [child.field]: oldRef },
+      after: { [child.field]: newRef },
+    });
+  });
+  await commitInChunks(ops, onProgress);
+};
+
+/** Every document trashed together with the entry's root, root included. */
+export const loadTrashItems = (entryId: string): Promise<AuditCascadeEntry[]> =>
+  loadCascadeChunks(doc(db, 'Trash', entryId), 'Items');
+
+// Deletes a trash entry together with the chunks of its item list.
+const deleteTrashEntry = async (batch: WriteBatch, entryId: string) => {
+  const chunks = await getDocs(collection(db, 'Trash', entryId, 'Items'));
+  chunks.docs.forEach(chunk => batch.delete(chunk.ref));
+  batch.delete(doc(db, 'Trash', entryId));
+};
+
+// Marks the items of an entry as trashed, children first and the root last, then
+// clears InProgress. Items already marked are skipped, which makes resuming safe.
+const markTrashed = async (entry: TrashEntry, items: AuditCascadeEntry[], onProgress?: ProgressCallback, before?: DocumentData) => {
+  const marked = await loadOwnedItemKeys(entry.id);
+  const pending = items.filter(item => !marked.has(`${item.Collection}/${item.DocumentId}`));
+  const ordered = [
+    ...pending.filter(item => item.DocumentId !== entry.RootId),
+    ...pending.filter(item => item.DocumentId === entry.RootId),
+  ];
+
+  const ops: WriteOp[] = ordered.map(item => batch => {
+    batch.update(doc(db, item.Collection, item.DocumentId), {
+      DeletedAt: serverTimestamp(),
+      DeletedBy: entry.DeletedBy,
+      DeletionId: entry.id,
+    });
+  });
+  await commitInChunks(ops, onProgress, 400);
+
+  const batch = writeBatch(db);
+  batch.update(doc(db, 'Trash', entry.id), { InProgress: deleteField() });
+  addAuditEntry(batch, {
+    action: 'delete',
+    collection: entry.RootCollection,
+    documentId: entry.RootId,
+    documentName: entry.RootName,
+    before,
+    cascadeDeleted: items.filter(item => item.DocumentId !== entry.RootId),
+  });
+  await batch.commit();
+};
+
+/**
+ * Moves a catalog document and its cascade into the trash. The trash entry and its
+ * item list are written first and marked InProgress, so a cascade interrupted part-way
+ * (e.g. by a network error) shows up in the trash tab and can be resumed with resumeTrash.
+ * Returns every document trashed, root included.
+ */
+export const moveToTrash = async (
+  collectionName: TrashCollection,
+  id: string,
+  before: DocumentData,
+  onProgress?: ProgressCallback
+): Promise<AuditCascadeEntry[]> => {
+  const children = await findCascadeChildren(collectionName, id);
+  const rootName = String(before[NAME_FIELDS[collectionName]] ?? id);
+  const root: AuditCascadeEntry = { Collection: collectionName, DocumentId: id, DocumentName: rootName };
+  const items = [root, ...children];
+  const trashRef = doc(collection(db, 'Trash'));
+  const entry: TrashEntry = {
+    id: trashRef.id,
+    RootCollection: collectionName,
+    RootId: id,
+    RootName: rootName,
+    ItemCount: items.length,
+    DeletedBy: auth.currentUser?.email ?? '',
+    InProgress: true,
+  };
+
+  const { id: _id, ...entryData } = entry;
+  const batch = writeBatch(db);
+  batch.set(trashRef, { ...entryData, DeletedAt: serverTimestamp() });
+  setCascadeChunks(batch, trashRef, 'Items', items);
+  await batch.commit();
+
+  await markTrashed(entry, items, onProgress, before);
+  return items;
+};
+
+/** Finishes a cascade that was interrupted while moving to the trash. */
+export const resumeTrash = async (entry: TrashEntry, onProgress?: ProgressCallback): Promise<void> =>
+  markTrashed(entry, await loadTrashItems(entry.id), onProgress);
+
+export const getPurgeDate = (entry: TrashEntry): Date | null => {
+  if (!entry.DeletedAt) return null;
+  const date = entry.DeletedAt.toDate();
+  date.setDate(date.getDate() + TRASH_RETENTION_DAYS);
+  return date;
+};
+
+export const canPurge = (entry: TrashEntry, now = new Date()): boolean => {
+  const purgeDate = getPurgeDate(entry);
+  return !entry.InProgress && purgeDate !== null && purgeDate <= now;
+};
+
+// Documents currently marked with this entry's DeletionId. A document may have been
+// revived by a backup restore and trashed again since, in which case it is left alone.
+const loadOwnedItems = async (deletionId: string) => {
+  const snapshots = await Promise.all(TRASH_COLLECTIONS.map(name =>
+    getDocs(query(collection(db, name), where('DeletionId', '==', deletionId)))
+  ));
+  return snapshots.flatMap((snapshot, index) => snapshot.docs.map(d => toEntry(TRASH_COLLECTIONS[index], d)));
+};
+
+const loadOwnedItemKeys = async (deletionId: string) =>
+  new Set((await loadOwnedItems(deletionId)).map(item => `${item.Collection}/${item.DocumentId}`));
+
+/**
+ * Restores everything in a trash entry. Fails when the root's parent (e.g. the country
+ * of a restored city) is itself in the trash; restore the parent first. The root is
+ * restored first and the entry removed last, so an interrupted restore can be re-run.
+ */
+export const restoreFromTrash = async (entry: TrashEntry, onProgress?: ProgressCallback): Promise<void> => {
+  const rootSnapshot = await getDoc(doc(db, entry.RootCollection, entry.RootId));
+  if (rootSnapshot.exists()) {
+    for (const parent of PARENT_FIELDS[entry.RootCollection as TrashCollection] || []) {
+      const parentRef = rootSnapshot.data()[parent.field];
+      if (!parentRef) continue;
+      const parentSnapshot = await getDoc(doc(db, parent.collection, parentRef.id));
+      if (!parentSnapshot.exists()) {
+        throw new Error('상위 항목이 영구 삭제되어 복원할 수 없습니다.');
+      }
+      if (parentSnapshot.data().DeletedAt) {
+        throw new Error(`상위 항목 "${parentSnapshot.data()[NAME_FIELDS[parent.collection]]}"이(가) 휴지통에 있습니다. 먼저 복원하세요.`);
+      }
+    }
+  }
+
+  const owned = await loadOwnedItems(entry.id);
+  const ordered = [
+    ...owned.filter(item => item.DocumentId === entry.RootId),
+    ...owned.filter(item => item.DocumentId !== entry.RootId),
+  ];
+  const ops: WriteOp[] = ordered.map(item => batch => {
+    batch.update(doc(db, item.Collection, item.DocumentId), {
+      DeletedAt: deleteField(),
+      DeletedBy: deleteField(),
+      DeletionId: deleteField(),
+    });
+  });
+  await commitInChunks(ops, onProgress, 400);
+
+  const batch = writeBatch(db);
+  await deleteTrashEntry(batch, entry.id);
+  addAuditEntry(batch, {
+    action: 'restore',
+    collection: entry.RootCollection,
+    documentId: entry.RootId,
+    documentName: entry.RootName,
+    cascadeDeleted: owned.filter(item => item.DocumentId !== entry.RootId),
+  });
+  await batch.commit();
+};
+
+/**
+ * Permanently deletes a trash entry's documents once the retention period has passed.
+ * Children go first and the entry itself last, so an interrupted purge can be re-run.
+ */
+export const purgeTrash = async (entry: TrashEntry, onProgress?: ProgressCallback): Promise<void> => {
+  if (!canPurge(entry)) {
+    throw new Error(`휴지통에 ${TRASH_RETENTION_DAYS}일 이상 보관된 항목만 영구 삭제할 수 있습니다.`);
+  }
+  const owned = await loadOwnedItems(entry.id);
+  const ordered = [
+    ...owned.filter(item => item.DocumentId !== entry.RootId),
+    ...owned.filter(item => item.DocumentId === entry.RootId),
+  ];
+  const ops: WriteOp[] = ordered.map(item => batch => batch.delete(doc(db, item.Collection, item.DocumentId)));
+  await commitInChunks(ops, onProgress, 400);
+
+  const batch = writeBatch(db);
+  await deleteTrashEntry(batch, entry.id);
+  addAuditEntry(batch, {
+    action: 'purge',
+    collection: entry.RootCollection,
+    documentId: entry.RootId,
+    documentName: entry.RootName,
+    cascadeDeleted: owned.filter(item => item.DocumentId !== entry.RootId),
+  });
+  await batch.commit();
+};
@@ -0,0 +1,229 @@
+import type { CellObject, WorkSheet } from 'xlsx';
+import { Quote, QuoteItem, PaxType, CurrencyCode } from '../types';
+import { BASE_CURRENCY, getFractionDigits, getSpreadsheetNumberFormat } from './currencyService';
+import { groupItemsByCategory, formatDayHeading } from './itineraryService';
+import { getItemPriceLines, PAX_TYPES, PAX_TYPE_LABELS } from './quoteItemService';
+import { calculateQuoteTotals, calculatePaymentSchedule, getPaymentScheduleLines, formatAdjustmentLabel, formatTaxLabel, AdjustmentAmount } from './quoteTotalsService';
+
+// Customer-facing like the other exports: only sell prices are written.
+// Internal fields such as costPrice, markupPercent and Cost_* must never appear here.
+
+type Cell = CellObject | string | number | null;
+
+const text = (value: string): CellObject => ({ t: 's', v: value });
+const money = (value: number, format: string): CellObject => ({ t: 'n', v: value, z: format });
+const formula = (f: string, cachedValue: number, format?: string): CellObject => ({ t: 'n', f, v: cachedValue, z: format });
+
+// Sheet names are quoted in formulas because day sheets contain non-ASCII characters.
+const sheetRef = (sheetName: string, address: string) => `'${sheetName.replace(/'/g, "''")}'!${address}`;
+
+const dayLabel = (index: number) => `${index + 1}일차`;
+
+interface DaySheet {
+  name: string;
+  sheet: WorkSheet;
+  totalAddress: string;
+  total: number;
+}
+
+const buildDaySheet = (XLSX: typeof import('xlsx'), quote: Quote, dayIndex: number, currencyFormat: string): DaySheet => {
+  const day = quote.days[dayIndex];
+  const name = dayLabel(dayIndex);
+  const rows: Cell[][] = [
+    [text(formatDayHeading(quote.info.departureDate, day, dayIndex))],
+    ['카테고리', '상품명', '가격 유형', '수량', '단가', '금액'],
+  ];
+
+  groupItemsByCategory(day.items).forEach(({ categoryName, items }) => {
+    const firstRow = rows.length + 1;
+    items.forEach(item => {
+      // Items priced per pax type get one row per pax type, e.g. "입장권 (성인)".
+      getItemPriceLines(item).forEach(line => {
+        const rowNumber = rows.length + 1;
+        rows.push([
+          text(categoryName),
+          text(line.label ? `${item.product.ProductName} (${line.label})` : item.product.ProductName),
+          text(item.product.PricingType === 'PerPerson' ? '인당' : '단위당'),
+          line.quantity,
+          money(line.unitPrice, currencyFormat),
+          formula(`D${rowNumber}*E${rowNumber}`, line.quantity * line.unitPrice, currencyFormat),
+        ]);
+      });
+    });
+    const lastRow = rows.length;
+    const categoryTotal = items.reduce((sum, item) => sum + item.total, 0);
+    rows.push([
+      null,
+      text(`${categoryName} 소계`),
+      null,
+      null,
+      null,
+      // SUBTOTAL(9, …) lets the day total below skip these nested subtotal rows.
+      formula(`SUBTOTAL(9,F${firstRow}:F${lastRow})`, categoryTotal, currencyFormat),
+    ]);
+  });
+
+  // Item rows start on row 3. A day without items has none, and a SUBTOTAL over the total
+  // row itself would be a circular reference.
+  const totalRow = rows.length + 1;
+  const itemsEnd = rows.length;
+  rows.push([
+    null,
+    text(`${name} 합계`),
+    null,
+    null,
+    null,
+    itemsEnd >= 3 ? formula(`SUBTOTAL(9,F3:F${itemsEnd})`, day.dayTotal, currencyFormat) : money(0, currencyFormat),
+  ]);
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 14 }, { wch: 36 }, { wch: 10 }, { wch: 8 }, { wch: 14 }, { wch: 16 }];
+  return { name, sheet, totalAddress: `F${totalRow}`, total: day.dayTotal };
+};
+
+const buildSummarySheet = (XLSX: typeof import('xlsx'), quote: Quote, daySheets: DaySheet[], currency: CurrencyCode, currencyFormat: string): WorkSheet => {
+  const { pax } = quote.info;
+  const rows: Cell[][] = [
+    [text('여행 견적 요약')],
+    [],
+    ['고객명', text(quote.info.customerName || '해당 없음')],
+    ['통화', text(currency)],
+    ['성인', pax.adults],
+    ['아동', pax.children],
+    ['유아', pax.infants],
+    ['총 인원', formula('SUM(B5:B7)', pax.adults + pax.children + pax.infants)],
+    [],
+    ['일차', '합계'],
+  ];
+
+  const firstDayRow = rows.length + 1;
+  daySheets.forEach(daySheet => {
+    rows.push([text(daySheet.name), formula(sheetRef(daySheet.name, daySheet.totalAddress), daySheet.total, currencyFormat)]);
+  });
+  const lastDayRow = rows.length;
+
+  rows.push([]);
+  // Mirrors calculateQuoteTotals with formulas, so edits in the day sheets flow through the
+  // percentage adjustments, tax, total and payment schedule. Without adjustments or tax the
+  // total is the only row.
+  const { info, days } = quote;
+  const totals = calculateQuoteTotals(info, days, quote.adjustments);
+  const digits = getFractionDigits(currency);
+  const taxRate = (info.taxPercent || 0) / 100;
+  const daysSum = daySheets.length > 0 ? `SUM(B${firstDayRow}:B${lastDayRow})` : '0';
+  const hasBreakdown = totals.beforeTax.length > 0 || totals.afterTax.length > 0 || !!info.taxPercent;
+
+  const subtotalRow = rows.length + 1;
+  const subtotalRef = hasBreakdown ? `B${subtotalRow}` : `(${daysSum})`;
+  if (hasBreakdown) rows.push([text('소계'), formula(daysSum, totals.subtotal, currencyFormat)]);
+
+  const adjustmentRow = ({ adjustment, amount }: AdjustmentAmount): Cell[] => {
+    const dayIndex = adjustment.dayId ? days.findIndex(d => d.id === adjustment.dayId) : -1;
+    const scopeRef = dayIndex >= 0 ? `B${firstDayRow + dayIndex}` : subtotalRef;
+    const sign = adjustment.kind === 'discount' ? '-' : '';
+    const base = adjustment.afterTax ? `${scopeRef}*${1 + taxRate}` : scopeRef;
+    const value = adjustment.valueType === 'percent'
+      ? formula(`${sign}ROUND(${base}*${adjustment.value}/100,${digits})`, amount, currencyFormat)
+      : money(amount, currencyFormat);
+    return [text(formatAdjustmentLabel(adjustment, days, info.departureDate)), value];
+  };
+
+  totals.beforeTax.forEach(amount => rows.push(adjustmentRow(amount)));
+  if (info.taxPercent) {
+    const taxable = totals.beforeTax.length > 0 ? `(${subtotalRef}+SUM(B${subtotalRow + 1}:B${rows.length}))` : subtotalRef;
+    rows.push([text(formatTaxLabel(info)), formula(`ROUND(${taxable}*${taxRate},${digits})`, totals.taxAmount, currencyFormat)]);
+  }
+  totals.afterTax.forEach(amount => rows.push(adjustmentRow(amount)));
+
+  const totalRow = rows.length + 1;
+  rows.push([text('총 합계'), formula(hasBreakdown ? `SUM(B${subtotalRow}:B${rows.length})` : daysSum, totals.total, currencyFormat)]);
+
+  const payment = calculatePaymentSchedule(info, quote.grandTotal);
+  if (payment && info.paymentSchedule) {
+    rows.push([]);
+    rows.push([text('결제 일정')]);
+    const [depositLine, balanceLine] = getPaymentScheduleLines(info, payment);
+    const depositRow = rows.length + 1;
+    rows.push([text(depositLine.label), formula(`ROUND(B${totalRow}*${info.paymentSchedule.depositPercent}/100,${digits})`, depositLine.amount, currencyFormat)]);
+    rows.push([text(balanceLine.label), formula(`B${totalRow}-B${depositRow}`, balanceLine.amount, currencyFormat)]);
+  }
+
+  if (quote.priceTiers?.length) {
+    rows.push([]);
+    rows.push([text('인원별 1인 요금')]);
+    rows.push(['인원', '총액', ...PAX_TYPES.map(paxType => PAX_TYPE_LABELS[paxType])]);
+    quote.priceTiers.forEach(tier => {
+      rows.push([
+        text(`${tier.groupSize}명`),
+        money(tier.total, currencyFormat),
+        ...PAX_TYPES.map(paxType => money(tier.perPerson[paxType], currencyFormat)),
+      ]);
+    });
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 28 }, { wch: 24 }, { wch: 16 }, { wch: 16 }, { wch: 16 }];
+  return sheet;
+};
+
+// Prices as charged in this quote, in the quote currency. Catalog prices are left out: they
+// are in the supplier's currency and before markup, so they wouldn't match the day sheets.
+// A product charged at different prices on different days (e.g. a seasonal rate) gets a row
+// per price.
+const buildProductSheet = (XLSX: typeof import('xlsx'), quote: Quote, currencyFormat: string): WorkSheet => {
+  const entries = new Map<string, { item: QuoteItem; days: string[] }>();
+  quote.days.forEach((day, dayIndex) => day.items.forEach(item => {
+    const prices = item.paxLines ? item.paxLines.map(line => `${line.paxType}:${line.unitPrice}`).join(',') : String(item.appliedPrice);
+    const key = `${item.product.id}|${prices}`;
+    const entry = entries.get(key);
+    if (!entry) {
+      entries.set(key, { item, days: [dayLabel(dayIndex)] });
+    } else if (!entry.days.includes(dayLabel(dayIndex))) {
+      entry.days.push(dayLabel(dayIndex));
+    }
+  }));
+
+  const rows: Cell[][] = [['카테고리', '상품명', '가격 유형', ...PAX_TYPES.map(paxType => PAX_TYPE_LABELS[paxType]), '단가', '일차']];
+  [...entries.values()]
+    .sort((a, b) => (a.item.product.CategoryName || '').localeCompare(b.item.product.CategoryName || '') || a.item.product.ProductName.localeCompare(b.item.product.ProductName))
+    .forEach(({ item, days }) => {
+      const paxPrice = (paxType: PaxType) => {
+        const line = item.paxLines?.find(l => l.paxType === paxType);
+        return line ? money(line.unitPrice, currencyFormat) : null;
+      };
+      rows.push([
+        text(item.product.CategoryName || '미분류'),
+        text(item.product.ProductName),
+        text(item.product.PricingType === 'PerPerson' ? '인당' : '단위당'),
+        ...PAX_TYPES.map(paxPrice),
+        item.paxLines ? null : money(item.appliedPrice, currencyFormat),
+        text(days.join(', ')),
+      ]);
+    });
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  sheet['!cols'] = [{ wch: 14 }, { wch: 36 }, { wch: 10 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 20 }];
+  return sheet;
+};
+
+/**
+ * Downloads the quote as an .xlsx workbook with a summary sheet, one itinerary sheet
+ * per day and a product price sheet. Totals are written as formulas so the file
+ * stays correct when quantities or prices are adjusted in Excel.
+ */
+export const exportXlsxQuote = async (quote: Quote): Promise<void> => {
+  // Loaded on demand to keep the spreadsheet library out of the initial bundle.
+  const XLSX = await import('xlsx');
+  const currency = quote.info.currency || BASE_CURRENCY;
+  const currencyFormat = getSpreadsheetNumberFormat(currency);
+
+  const daySheets = quote.days.map((_, index) => buildDaySheet(XLSX, quote, index, currencyFormat));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, buildSummarySheet(XLSX, quote, daySheets, currency, currencyFormat), '요약');
+  daySheets.forEach(daySheet => XLSX.utils.book_append_sheet(workbook, daySheet.sheet, daySheet.name));
+  XLSX.utils.book_append_sheet(workbook, buildProductSheet(XLSX, quote, currencyFormat), '상품 단가');
+
+  const customerName = quote.info.customerName.replace(/\s+/g, '_') || '견적';
+  XLSX.writeFile(workbook, `${customerName}_견적서.xlsx`);
+};
@@ -4,54 +4,134 @@ export interface FirestoreDocument {
   id: string;
 }
 
-export interface Country extends FirestoreDocument {
+export type UserRole = "pending" | "viewer" | "sales" | "catalogAdmin" | "owner";
+
+export interface UserProfile extends FirestoreDocument { // id is the Firebase Auth uid
+  Email: string;
+  DisplayName?: string;
+  Role: UserRole;
+  CreatedAt?: Timestamp;
+  LastModified?: Timestamp;
+}
+
+// Catalog documents are soft-deleted: they stay in their collection with these fields
+// set and a matching TrashEntry, until they are restored or purged.
+export interface TrashableDocument extends FirestoreDocument {
+  DeletedAt?: Timestamp;
+  DeletedBy?: string;
+  DeletionId?: string; // TrashEntry id shared by everything removed in one cascade
+}
+
+export interface Country extends TrashableDocument {
   CountryName: string;
 }
 
-export interface City extends FirestoreDocument {
+export interface City extends TrashableDocument {
   CityName: string;
   CountryRef: DocumentReference<DocumentData>;
 }
 
-export interface Category extends FirestoreDocument {
+export interface Category extends TrashableDocument {
   CategoryName: string;
+  DefaultMarkupPercent?: number;
 }
 
 export type PricingType = "PerPerson" | "PerUnit";
 
-export interface Product extends FirestoreDocument {
+export type CurrencyCode = "KRW" | "JPY" | "USD" | "VND" | "EUR" | "CNY" | "THB";
+
+export interface ExchangeRate extends FirestoreDocument {
+  Currency: CurrencyCode;
+  RateToKRW: number; // Value of one unit of Currency in KRW
+  EffectiveDate: string; // YYYY-MM-DD, applies until a later rate takes over
+  LastModified?: Timestamp;
+}
+
+// A date-ranged rate that replaces the product's base prices, e.g. peak season or weekends.
+export interface ProductPricePeriod {
+  Id: string;
+  Name: string;
+  StartDate: string; // YYYY-MM-DD, inclusive
+  EndDate: string; // YYYY-MM-DD, inclusive
+  Weekdays?: number[]; // 0 (Sunday) to 6 (Saturday); every day of the range when empty
+  Price_Adult?: number;
+  Price_Child?: number;
+  Price_Infant?: number;
+  Price_Unit?: number;
+  Cost_Adult?: number;
+  Cost_Child?: number;
+  Cost_Infant?: number;
+  Cost_Unit?: number;
+}
+
+export interface Product extends TrashableDocument {
   ProductName: string;
   ProductDescription?: string;
   ProductURL?: string;
   CityRef: DocumentReference<DocumentData>;
   CategoryRef: DocumentReference<DocumentData>;
   PricingType: PricingType;
+  Currency?: CurrencyCode; // Currency of the Price_* and Cost_* fields, KRW when unset
   Price_Adult?: number;
   Price_Child?: number;
   Price_Infant?: number;
   Price_Unit?: number;
+  // Net cost paid to the supplier (internal only)
+  Cost_Adult?: number;
+  Cost_Child?: number;
+  Cost_Infant?: number;
+  Cost_Unit?: number;
+  PricePeriods?: ProductPricePeriod[];
+  // PerUnit only: one unit per this many travellers (infants excluded), e.g. 2 for twin
+  // rooms. Unset when the quantity doesn't depend on the group size.
+  PaxPerUnit?: number;
   LastModified?: Timestamp;
   // For display purposes after fetching related data
   CityName?: string;
   CategoryName?: string;
+  CategoryMarkupPercent?: number;
+}
+
+export type PaxType = "adult" | "child" | "infant";
+
+export interface QuoteItemPaxLine {
+  paxType: PaxType;
+  quantity: number;
+  unitPrice: number;
+  costPrice?: number; // Net cost per person (internal only)
 }
 
 export interface QuoteItem {
   id: string; // Unique ID for the item in the quote
   product: Product;
-  quantity: number;
-  appliedPrice: number;
+  quantity: number; // Units, or total pax for items with paxLines
+  appliedPrice: number; // Unit price; unused for items with paxLines
+  costPrice?: number; // Net cost per unit (internal only); unused for items with paxLines
+  // PerPerson items keep a quantity and price per pax type; the item total is the sum of the lines.
+  // Items saved before this have no lines and are charged quantity × appliedPrice.
+  paxLines?: QuoteItemPaxLine[];
+  markupPercent?: number; // Item-level markup override
+  exchangeRate?: number; // Product currency -> quote currency multiplier used, buffer included
+  pricePeriodName?: string; // Rate period the prices were taken from; base prices when unset
+  overridden?: boolean; // Quantity or price edited by hand; left alone when pax change
   total: number;
 }
 
 export interface QuoteDay {
   id: string; // Unique ID for the day
+  countryId?: string;
+  cityId?: string;
+  // Names are stored with the day so exports and shared quotes don't need the catalog.
+  countryName?: string;
+  cityName?: string;
   items: QuoteItem[];
   dayTotal: number;
 }
 
 export interface QuoteInfo {
   customerName: string;
+  // Location of the first day, kept for the quote list. Older quotes without per-day
+  // locations use it for every day.
   countryId: string;
   cityId: string;
   pax: {
@@ -59,10 +139,147 @@ export interface QuoteInfo {
     children: number;
     infants: number;
   };
+  markupPercent?: number; // Quote-level markup override
+  currency?: CurrencyCode; // Quote currency, KRW when unset
+  exchangeBufferPercent?: number;
+  terms?: string; // Terms printed on the customer quote document
+  departureDate?: string; // YYYY-MM-DD, the date of day 1
+  validUntil?: string; // YYYY-MM-DD, last day the quoted prices are honoured
+  taxLabel?: string; // e.g. "부가세"
+  taxPercent?: number; // Tax on the items and before-tax adjustments; no tax when unset
+  paymentSchedule?: PaymentSchedule;
+  priceTierSizes?: number[]; // Group sizes for the price tier table
+  includePriceTiers?: boolean; // Show the price tier table in the exports
+}
+
+export type AdjustmentKind = "discount" | "surcharge";
+
+// A discount or surcharge line applied on top of the item totals.
+export interface QuoteAdjustment {
+  id: string;
+  label: string;
+  kind: AdjustmentKind;
+  valueType: "percent" | "fixed";
+  value: number; // Percent, or an amount in the quote currency; always positive
+  dayId?: string; // Applies to one day only; the whole quote when unset
+  afterTax?: boolean; // Applied after tax, so it is not taxed
+}
+
+export interface PaymentSchedule {
+  depositPercent: number;
+  depositDueDate?: string; // YYYY-MM-DD
+  balanceDueDaysBeforeDeparture?: number; // Balance is due this many days before the departure date
+}
+
+// The quote recomputed for a hypothetical group size
+export interface QuotePriceTier {
+  groupSize: number; // Paying pax (adults and children)
+  pax: QuoteInfo['pax'];
+  perPerson: Record<PaxType, number>;
+  total: number;
 }
 
 export interface Quote {
   info: QuoteInfo;
   days: QuoteDay[];
-  grandTotal: number;
+  adjustments?: QuoteAdjustment[];
+  grandTotal: number; // Amount payable: items plus adjustments and tax
+  priceTiers?: QuotePriceTier[]; // Only present when the tiers are included in the exports
+}
+
+export interface SavedQuote extends FirestoreDocument, Quote {
+  CurrentVersion?: number;
+  CreatedAt?: Timestamp;
+  UpdatedAt?: Timestamp;
+  ShareToken?: string; // ID of the active SharedQuote, if the quote is shared with the customer
+  CustomerResponse?: CustomerResponse; // Latest answer from the share link
+}
+
+// Immutable snapshot written to Quotes/{quoteId}/Revisions on every save.
+export interface QuoteRevision extends FirestoreDocument, Quote {
+  Version: number;
+  CreatedAt?: Timestamp;
+}
+
+export type CustomerResponseStatus = "accepted" | "changesRequested";
+
+// The customer's answer to a shared quote, written from the share link.
+export interface CustomerResponse {
+  Status: CustomerResponseStatus;
+  Message?: string;
+  Version: number; // Quote version the customer answered
+  ShareToken: string; // Token of the link it was sent from; the rules check it against the quote
+  RespondedAt?: Timestamp;
+}
+
+// Customer-safe copy of a saved quote, readable by anyone who has the link. The ID is the
+// unguessable share token.
+export interface SharedQuote extends FirestoreDocument, Quote {
+  QuoteId: string;
+  Version: number; // Quote version that was shared
+  Destination?: string;
+  SharedBy: string;
+  SharedAt?: Timestamp;
+  Response?: CustomerResponse;
+}
+
+export interface PackageTemplateItem {
+  ProductRef: DocumentReference<DocumentData>;
+  ProductName: string; // Name when saved, for listing; prices always come from the product
+  Quantity?: number; // PerUnit items only
+}
+
+export interface PackageTemplateDay {
+  CountryRef?: DocumentReference<DocumentData>;
+  CityRef?: DocumentReference<DocumentData>;
+  CityName?: string;
+  Items: PackageTemplateItem[];
+}
+
+// Reusable days saved from a quote, e.g. "오사카 3일 클래식"
+export interface PackageTemplate extends FirestoreDocument {
+  TemplateName: string;
+  Description?: string;
+  Days: PackageTemplateDay[];
+  CreatedBy?: string;
+  CreatedAt?: Timestamp;
+  LastModified?: Timestamp;
+}
+
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditFieldChange {
+  Field: string;
+  Before: AuditValue; // null when the field did not exist
+  After: AuditValue; // null when the field was removed
+}
+
+export interface AuditCascadeEntry {
+  Collection: string;
+  DocumentId: string;
+  DocumentName: string;
+}
+
+export interface AuditLog extends FirestoreDocument {
+  Action: AuditAction;
+  Collection: string;
+  DocumentId: string;
+  DocumentName: string;
+  ActorId: string;
+  ActorEmail: string;
+  CreatedAt?: Timestamp;
+  Changes: AuditFieldChange[];
+  CascadeCount?: number; // Child documents removed along with a delete, listed in the CascadeDeleted subcollection
+}
+
+export interface TrashEntry extends FirestoreDocument {
+  RootCollection: string;
+  RootId: string;
+  RootName: string;
+  ItemCount: number; // Every document trashed together, root included, listed in the Items subcollection
+  DeletedAt?: Timestamp;
+  DeletedBy: string;
+  InProgress?: boolean; // Set until every item has been moved; an interrupted cascade can be resumed
 }